@@ -370,3 +370,54 @@ export const authConfigSchema = z.object({
   requirePhoneVerification: z.boolean().default(false),
   enable2FA: z.boolean().default(false),
 });
+
+// Schema for why a refresh session was revoked
+export const sessionRevocationReasonSchema = z.enum([
+  'LOGOUT',
+  'LOGOUT_ALL',
+  'REPLACED', // a new login on the same device
+  'REUSE_DETECTED',
+]);
+
+// Schema for a refresh session: one device's chain of rotated refresh tokens
+export const refreshSessionSchema = z.object({
+  id: z.string().uuid(), // the token family id
+  userId: z.string().uuid(),
+  deviceId: z.string(),
+  currentTokenId: z.string().uuid(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  expiresAt: z.string().datetime(),
+  revokedAt: z.string().datetime().nullable(),
+  revokedReason: sessionRevocationReasonSchema.nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+// Schema for a stored refresh token; only a hash of the token is kept
+export const refreshTokenRecordSchema = z.object({
+  id: z.string().uuid(),
+  familyId: z.string().uuid(),
+  userId: z.string().uuid(),
+  parentId: z.string().uuid().nullable(), // the token this one replaced
+  tokenHash: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid token hash'),
+  status: z.enum(['ACTIVE', 'ROTATED', 'REVOKED']),
+  expiresAt: z.string().datetime(),
+  rotatedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+// Schema for what a one-time code is for
+export const otpPurposeSchema = z.enum(['login', 'verify', 'reset']);
+
+// Schema for a stored one-time code; only a hash of the code is kept
+export const otpRecordSchema = z.object({
+  id: z.string().uuid(),
+  identifier: z.string().min(1), // normalized phone or email
+  purpose: otpPurposeSchema,
+  channel: z.enum(['sms', 'email']),
+  codeHash: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid code hash'),
+  attempts: z.number().int().nonnegative(),
+  expiresAt: z.string().datetime(),
+  createdAt: z.string().datetime(), // when this code was sent
+});
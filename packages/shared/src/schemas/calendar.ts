@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { uuidSchema, timeStringSchema } from './common';
+
+// Schema for calendar dates in YYYY-MM-DD format
+export const calendarDateSchema = z.string().regex(
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+  'Date must be in YYYY-MM-DD format'
+);
+
+// Schema for what an hours exception applies to
+export const hoursExceptionScopeSchema = z.enum(['VENUE', 'SERVICE', 'INSTITUTE']);
+
+// Schema for how an hours exception repeats; YEARLY_HIJRI repeats on the
+// Hijri (Umm al-Qura) month and day of its dates, e.g. every 1 Shawwal
+export const hoursExceptionRecurrenceSchema = z.enum(['NONE', 'YEARLY', 'YEARLY_HIJRI']);
+
+// Schema for the custom hours of an exception day
+export const exceptionHoursSchema = z.object({
+  openTime: timeStringSchema.optional(),
+  closeTime: timeStringSchema.optional(),
+  is24Hours: z.boolean().default(false),
+}).refine(
+  data => data.is24Hours || (data.openTime && data.closeTime),
+  {
+    message: 'Open and close times are required when not 24 hours',
+    path: ['openTime'],
+  }
+);
+
+// Base hours exception schema
+export const hoursExceptionBaseSchema = z.object({
+  id: uuidSchema,
+  scope: hoursExceptionScopeSchema,
+  scopeId: uuidSchema,
+  name: z.string().min(1, 'Name is required').max(100),
+  startDate: calendarDateSchema,
+  endDate: calendarDateSchema.nullable(), // null for a single day
+  isClosed: z.boolean().default(true),
+  hours: z.array(exceptionHoursSchema).default([]),
+  recurrence: hoursExceptionRecurrenceSchema.default('NONE'),
+  metadata: z.record(z.unknown()).default({}),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+type HoursExceptionRules = {
+  startDate?: string;
+  endDate?: string | null;
+  isClosed?: boolean;
+  hours?: unknown[];
+  recurrence?: string;
+};
+
+const hasValidRange = (data: HoursExceptionRules) =>
+  !data.startDate || !data.endDate || data.endDate >= data.startDate ||
+  // Yearly ranges may wrap around the new year (e.g., Dec 31 - Jan 2)
+  (data.recurrence === 'YEARLY' &&
+    data.startDate.slice(0, 4) === data.endDate.slice(0, 4) &&
+    data.startDate.slice(5, 7) === '12' &&
+    data.endDate.slice(5, 7) === '01');
+
+const hasHoursWhenOpen = (data: HoursExceptionRules) =>
+  data.isClosed !== false || (data.hours?.length ?? 0) > 0;
+
+// Schema for an hours exception
+export const hoursExceptionSchema = hoursExceptionBaseSchema
+  .refine(hasValidRange, {
+    message: 'End date must be after or equal to start date',
+    path: ['endDate'],
+  })
+  .refine(hasHoursWhenOpen, {
+    message: 'Custom hours are required when not closed',
+    path: ['hours'],
+  });
+
+// Schema for creating an hours exception
+export const createHoursExceptionSchema = hoursExceptionBaseSchema.pick({
+  scope: true,
+  scopeId: true,
+  name: true,
+  startDate: true,
+  isClosed: true,
+  hours: true,
+  recurrence: true,
+  metadata: true,
+}).extend({
+  endDate: calendarDateSchema.nullable().optional(),
+})
+  .refine(hasValidRange, {
+    message: 'End date must be after or equal to start date',
+    path: ['endDate'],
+  })
+  .refine(hasHoursWhenOpen, {
+    message: 'Custom hours are required when not closed',
+    path: ['hours'],
+  });
+
+// Schema for updating an hours exception
+export const updateHoursExceptionSchema = hoursExceptionBaseSchema.pick({
+  name: true,
+  startDate: true,
+  endDate: true,
+  isClosed: true,
+  hours: true,
+  recurrence: true,
+  metadata: true,
+}).partial().extend({
+  id: uuidSchema.optional(), // Not updatable, just for validation
+})
+  .refine(hasValidRange, {
+    message: 'End date must be after or equal to start date',
+    path: ['endDate'],
+  })
+  .refine(hasHoursWhenOpen, {
+    message: 'Custom hours are required when not closed',
+    path: ['hours'],
+  });
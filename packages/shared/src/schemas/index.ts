@@ -6,3 +6,6 @@ export * from './venue';
 export * from './queue';
 export * from './service';
 export * from './common';
+export * from './visit';
+export * from './calendar';
+export * from './template';
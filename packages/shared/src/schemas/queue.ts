@@ -248,6 +248,7 @@ export const queueNotificationSchema = z.object({
     'QUEUE_POSITION_UPDATE',
     'TURN_SOON',
     'TURN_NOW',
+    'LEAVE_NOW',
     'TURN_MISSED',
     'SERVICE_COMPLETED',
     'QUEUE_CANCELLED',
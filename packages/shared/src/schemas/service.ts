@@ -138,7 +138,7 @@ export const serviceAvailabilitySchema = z.object({
       'Time must be in HH:MM format'
     ),
     isAvailable: z.boolean(),
-    availableSlots: z.number().int().nonnegative(),
+    availableSlots: z.number().int().nonnegative().nullable(), // null when unlimited
   })),
 });
 
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { languageCodeSchema, uuidSchema } from './common';
+
+// Schema for the channels a template can target
+export const templateChannelSchema = z.enum(['push', 'email', 'sms', 'inApp']);
+
+// Schema for the notification types a template can be written for
+export const templateNotificationTypeSchema = z.enum([
+  'QUEUE_UPDATE',
+  'POSITION_CHANGED',
+  'YOUR_TURN_SOON',
+  'YOUR_TURN_NOW',
+  'LEAVE_NOW',
+  'TURN_MISSED',
+  'CONFIRMATION_EXPIRED',
+  'QUEUE_PAUSED',
+  'QUEUE_RESUMED',
+  'QUEUE_CLOSED',
+  'APPOINTMENT_REMINDER',
+  'CUSTOM_MESSAGE',
+]);
+
+type TemplateNotificationType = z.infer<typeof templateNotificationTypeSchema>;
+
+const COMMON_VARIABLES = ['name', 'queueName', 'venueName', 'instituteName', 'queueNumber'];
+
+// Variables each notification type can fill in, written as {{variable}}
+export const templateVariables: Record<TemplateNotificationType, string[]> = {
+  QUEUE_UPDATE: [...COMMON_VARIABLES, 'position', 'estimatedWaitTime'],
+  POSITION_CHANGED: [...COMMON_VARIABLES, 'position', 'estimatedWaitTime'],
+  YOUR_TURN_SOON: [...COMMON_VARIABLES, 'position', 'minutesUntilTurn', 'counter'],
+  YOUR_TURN_NOW: [...COMMON_VARIABLES, 'counter'],
+  LEAVE_NOW: [...COMMON_VARIABLES, 'travelMinutes', 'position'],
+  TURN_MISSED: [...COMMON_VARIABLES],
+  CONFIRMATION_EXPIRED: [...COMMON_VARIABLES],
+  QUEUE_PAUSED: [...COMMON_VARIABLES, 'reason'],
+  QUEUE_RESUMED: [...COMMON_VARIABLES],
+  QUEUE_CLOSED: [...COMMON_VARIABLES, 'reason'],
+  APPOINTMENT_REMINDER: [...COMMON_VARIABLES, 'appointmentTime', 'location'],
+  CUSTOM_MESSAGE: [...COMMON_VARIABLES, 'counter'],
+};
+
+// A {{variable}} placeholder; global, so copy it before calling `exec`
+export const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Schema for template text; placeholders are {{variable}} and braces may not appear otherwise
+export const templateTextSchema = z.string().refine(
+  text => !/[{}]/.test(text.replace(PLACEHOLDER_PATTERN, '')),
+  'Placeholders must be written as {{variable}}'
+);
+
+// Base notification template schema
+export const notificationTemplateBaseSchema = z.object({
+  id: uuidSchema,
+  instituteId: uuidSchema,
+  venueId: uuidSchema.nullable(), // null for every venue of the institute
+  type: templateNotificationTypeSchema,
+  language: languageCodeSchema,
+  channel: templateChannelSchema.nullable(), // null for every channel
+  name: z.string().min(1, 'Name is required').max(100),
+  title: templateTextSchema.pipe(z.string().min(1, 'Title is required').max(200)),
+  body: templateTextSchema.pipe(z.string().min(1, 'Body is required').max(2000)),
+  isActive: z.boolean().default(true),
+  metadata: z.record(z.unknown()).default({}),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+const checkVariables = (
+  data: { type?: TemplateNotificationType; title?: string; body?: string },
+  ctx: z.RefinementCtx
+) => {
+  if (!data.type) return;
+  const allowed = templateVariables[data.type];
+
+  (['title', 'body'] as const).forEach(field => {
+    const text = data[field] || '';
+    let match: RegExpExecArray | null;
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (!allowed.includes(match[1])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown variable {{${match[1]}}} for ${data.type} templates`,
+          path: [field],
+        });
+      }
+    }
+  });
+};
+
+// Schema for a notification template
+export const notificationTemplateSchema = notificationTemplateBaseSchema.superRefine(checkVariables);
+
+// Schema for creating a notification template
+export const createNotificationTemplateSchema = notificationTemplateBaseSchema.pick({
+  instituteId: true,
+  venueId: true,
+  type: true,
+  language: true,
+  channel: true,
+  name: true,
+  title: true,
+  body: true,
+  isActive: true,
+  metadata: true,
+}).extend({
+  venueId: uuidSchema.nullable().default(null),
+  channel: templateChannelSchema.nullable().default(null),
+}).superRefine(checkVariables);
+
+// Schema for updating a notification template; variables are checked
+// against the stored template's type when the update is applied
+export const updateNotificationTemplateSchema = notificationTemplateBaseSchema.pick({
+  name: true,
+  channel: true,
+  title: true,
+  body: true,
+  isActive: true,
+  metadata: true,
+}).partial().extend({
+  id: uuidSchema.optional(), // Not updatable, just for validation
+});
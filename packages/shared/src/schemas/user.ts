@@ -125,6 +125,7 @@ export const userDeviceSchema = z.object({
   osName: z.string().nullable(),
   osVersion: z.string().nullable(),
   pushToken: z.string().nullable(),
+  pushTokenInvalidatedAt: z.string().datetime().nullable().optional(),
   lastActiveAt: z.string().datetime(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -8,8 +8,16 @@ import {
   paginationSchema,
   addressSchema,
   timeRangeSchema,
-  dateRangeSchema
+  dateRangeSchema,
+  timezoneSchema
 } from './common';
+import { TimezoneUtils } from '../utils/timezone';
+
+// Schema for a venue's IANA timezone, which its opening hours are read in
+export const venueTimezoneSchema = timezoneSchema.refine(
+  timezone => TimezoneUtils.isKnownTimezone(timezone),
+  timezone => ({ message: `Unknown timezone: ${timezone}` })
+);
 
 // Base venue schema
 export const venueBaseSchema = z.object({
@@ -30,6 +38,7 @@ export const venueBaseSchema = z.object({
   images: z.array(imageUrlSchema).default([]),
   address: addressSchema,
   coordinates: coordinatesSchema,
+  timezone: venueTimezoneSchema.optional(), // defaults to UTC when missing
   contactEmail: z.string().email().nullable(),
   contactPhone: z.string().min(1, 'Contact phone is required'),
   website: urlSchema.nullable(),
@@ -62,6 +71,7 @@ export const createVenueSchema = venueBaseSchema.pick({
   images: true,
   address: true,
   coordinates: true,
+  timezone: true,
   contactEmail: true,
   contactPhone: true,
   website: true,
@@ -237,7 +247,7 @@ export const venueAvailabilitySchema = z.object({
     startTime: timeStringSchema,
     endTime: timeStringSchema,
     isAvailable: z.boolean(),
-    availableSlots: z.number().int().nonnegative(),
+    availableSlots: z.number().int().nonnegative().nullable(), // null when unlimited
   })),
 });
 
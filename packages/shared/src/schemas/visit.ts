@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { uuidSchema } from './common';
+
+// Schema for visit step status
+export const visitStepStatusSchema = z.enum([
+  'PENDING', 'QUEUED', 'IN_SERVICE', 'COMPLETED', 'SKIPPED', 'CANCELLED'
+]);
+
+// Schema for visit status
+export const visitStatusSchema = z.enum([
+  'NOT_STARTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'
+]);
+
+// Schema for a single step of a visit itinerary
+export const visitStepSchema = z.object({
+  id: uuidSchema,
+  serviceId: uuidSchema,
+  queueId: uuidSchema,
+  name: z.string().min(1, 'Step name is required').max(100),
+  isOptional: z.boolean().default(false),
+  averageServiceTime: z.number().int().positive().nullable().default(null), // in seconds, overrides the service's
+});
+
+// Base visit itinerary schema
+export const visitItineraryBaseSchema = z.object({
+  id: uuidSchema,
+  userId: uuidSchema,
+  venueId: uuidSchema,
+  steps: z.array(visitStepSchema).min(1, 'At least one step is required'),
+  metadata: z.record(z.unknown()).default({}),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const visitItinerarySchema = visitItineraryBaseSchema.refine(
+  data => new Set(data.steps.map(step => step.id)).size === data.steps.length,
+  {
+    message: 'Step IDs must be unique',
+    path: ['steps'],
+  }
+);
+
+// Schema for creating a visit itinerary
+export const createVisitItinerarySchema = visitItineraryBaseSchema.pick({
+  venueId: true,
+  metadata: true,
+}).extend({
+  userId: uuidSchema.optional(), // Will be set from auth if not provided
+  steps: z.array(visitStepSchema.omit({ id: true })).min(1, 'At least one step is required'),
+});
+
+// Schema for the progress of one itinerary step
+export const visitStepProgressSchema = z.object({
+  stepId: uuidSchema,
+  status: visitStepStatusSchema.default('PENDING'),
+  queueEntryId: z.string().nullable().default(null),
+  queuedAt: z.string().datetime().nullable().default(null),
+  startedAt: z.string().datetime().nullable().default(null),
+  completedAt: z.string().datetime().nullable().default(null),
+});
+
+// Schema for the progress of a whole visit
+export const visitProgressSchema = z.object({
+  itineraryId: uuidSchema,
+  status: visitStatusSchema.default('NOT_STARTED'),
+  currentStepIndex: z.number().int().nonnegative().nullable(),
+  steps: z.array(visitStepProgressSchema),
+  estimatedRemainingTime: z.number().int().nonnegative(), // in seconds
+  estimatedCompletionTime: z.string().datetime().nullable(),
+  updatedAt: z.string().datetime(),
+});
@@ -0,0 +1,5 @@
+// Node-only modules, published as `@superque/shared/server`. They use Node's
+// `crypto`, so they stay out of the main entry that the mobile app bundles.
+export * from './jwt';
+export * from './refreshToken';
+export * from './otp';
@@ -0,0 +1,80 @@
+import { generateKeyPairSync } from 'crypto';
+import { FakeClock } from '../utils/time';
+import { JwtService } from './jwt';
+
+const claims = {
+  sub: '11111111-1111-4111-8111-111111111111',
+  role: 'USER' as const,
+  isVerified: true,
+};
+
+describe('JwtService', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ed = generateKeyPairSync('ed25519');
+  let clock: FakeClock;
+  let service: JwtService;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-01-01T00:00:00Z');
+    service = new JwtService({
+      keys: [
+        { kid: 'hs', algorithm: 'HS256', secret: 'x'.repeat(32) },
+        { kid: 'rs', algorithm: 'RS256', privateKey: rsa.privateKey },
+        { kid: 'ed', algorithm: 'EdDSA', privateKey: ed.privateKey },
+      ],
+      issuer: 'superque',
+    }, clock);
+  });
+
+  it.each(['hs', 'rs', 'ed'])('signs and verifies with the %s key', kid => {
+    service.setActiveKey(kid);
+    const token = service.sign(claims);
+
+    expect(JwtService.decode(token)!.header.kid).toBe(kid);
+    expect(service.verify(token)).toMatchObject({ isValid: true, user: { sub: claims.sub, exp: 1767225600 + 900 } });
+  });
+
+  it('verifies with only the public key', () => {
+    service.setActiveKey('ed');
+    const verifier = new JwtService({ keys: [{ kid: 'ed', algorithm: 'EdDSA', publicKey: ed.publicKey }] }, clock);
+
+    expect(verifier.verify(service.sign(claims)).isValid).toBe(true);
+  });
+
+  it('rejects tampered tokens and mismatched algorithms', () => {
+    const [header, payload, signature] = service.sign(claims).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'ADMIN', exp: 9999999999 })).toString('base64url');
+    const swapped = Buffer.from(JSON.stringify({ alg: 'HS256', kid: 'ed' })).toString('base64url');
+
+    expect(service.verify(`${header}.${forged}.${signature}`).error).toBe('Invalid signature');
+    expect(service.verify(`${swapped}.${payload}.${signature}`).error).toBe('Algorithm mismatch');
+    expect(service.verify('not-a-token').error).toBe('Malformed token');
+  });
+
+  it('tolerates clock skew before reporting expiry', () => {
+    const token = service.sign(claims, 60);
+
+    clock.advance(60 + 30, 'seconds');
+    expect(service.verify(token).isValid).toBe(true);
+
+    clock.advance(1, 'seconds');
+    expect(service.verify(token)).toEqual({ isValid: false, isExpired: true, error: 'Token expired' });
+    expect(() => service.verifyOrThrow(token)).toThrow('Token expired');
+  });
+
+  it('keeps verifying old tokens until their key is removed', () => {
+    const old = service.sign(claims);
+
+    service.addKey({ kid: 'hs2', algorithm: 'HS256', secret: 'y'.repeat(32) });
+    service.setActiveKey('hs2');
+    expect(JwtService.decode(service.sign(claims))!.header.kid).toBe('hs2');
+    expect(service.verify(old).isValid).toBe(true);
+
+    service.removeKey('hs');
+    expect(service.verify(old).error).toBe('Unknown signing key');
+  });
+
+  it('validates claims against userClaimsSchema', () => {
+    expect(() => service.sign({ ...claims, sub: 'not-a-uuid' })).toThrow('Invalid token claims');
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  KeyObject,
+  randomUUID,
+  sign as cryptoSign,
+  timingSafeEqual,
+  verify as cryptoVerify,
+} from 'crypto';
+import { z } from 'zod';
+import { authConfigSchema, tokenValidationResponseSchema, userClaimsSchema } from '../schemas/auth';
+import { UnauthorizedError, ValidationError } from '../utils/errors';
+import { Clock, systemClock } from '../utils/time';
+import { AuthConfig, validateWithZod } from '../utils/validation';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'EdDSA';
+
+export type UserClaims = z.infer<typeof userClaimsSchema>;
+export type TokenValidationResponse = z.infer<typeof tokenValidationResponseSchema>;
+
+export interface JwtKey {
+  /** Key id, written to the token header so verifiers can pick the key */
+  kid: string;
+  algorithm: JwtAlgorithm;
+  /** Shared secret for HS256 (at least 32 bytes) */
+  secret?: string | Buffer;
+  /** PEM or key object for RS256 and EdDSA; only needed to sign */
+  privateKey?: string | KeyObject;
+  /** PEM or key object for RS256 and EdDSA; derived from `privateKey` when omitted */
+  publicKey?: string | KeyObject;
+}
+
+export interface JwtServiceOptions {
+  keys: JwtKey[];
+  /** Key that signs new tokens (default: the first key) */
+  activeKid?: string;
+  issuer?: string;
+  audience?: string;
+  /** Seconds of clock difference tolerated when checking times (default: 30) */
+  clockSkew?: number;
+  /** `accessTokenExpiry` sets the token lifetime */
+  config?: Partial<AuthConfig>;
+}
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: Record<string, any>;
+  signature: Buffer;
+  signingInput: string;
+}
+
+export type AccessTokenClaims = Omit<UserClaims, 'iat' | 'exp'>;
+
+const ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'EdDSA'];
+
+/**
+ * Signs and verifies access tokens carrying `userClaimsSchema` claims.
+ *
+ * Tokens name their signing key in the `kid` header. To rotate keys, add
+ * the new key, make it active, and remove the old one once the tokens it
+ * signed have expired. A token is only checked with the key its `kid`
+ * names, and only if the header's `alg` matches that key's algorithm.
+ */
+export class JwtService {
+  private readonly keys = new Map<string, JwtKey>();
+  private activeKid: string;
+  private readonly clockSkew: number;
+  private readonly accessTokenExpiry: number;
+
+  constructor(private readonly options: JwtServiceOptions, private readonly clock: Clock = systemClock) {
+    if (!options.keys.length) {
+      throw new ValidationError('Invalid JWT configuration', [{ field: 'keys', message: 'At least one key is required' }]);
+    }
+
+    options.keys.forEach(key => this.addKey(key));
+    this.activeKid = options.activeKid ?? options.keys[0].kid;
+    if (!this.keys.has(this.activeKid)) {
+      throw new ValidationError('Invalid JWT key', [{ field: `keys.${this.activeKid}`, message: 'Unknown key id' }]);
+    }
+    this.clockSkew = options.clockSkew ?? 30;
+    this.accessTokenExpiry = authConfigSchema.parse(options.config ?? {}).accessTokenExpiry;
+  }
+
+  /**
+   * Adds a key, replacing any key with the same id
+   */
+  addKey(key: JwtKey): void {
+    const field = `keys.${key.kid}`;
+    const invalid = (message: string) => new ValidationError('Invalid JWT key', [{ field, message }]);
+
+    if (!key.kid) throw invalid('Key id is required');
+    if (!ALGORITHMS.includes(key.algorithm)) throw invalid(`Unsupported algorithm ${key.algorithm}`);
+
+    if (key.algorithm === 'HS256') {
+      if (!key.secret || Buffer.byteLength(key.secret) < 32) throw invalid('HS256 secrets must be at least 32 bytes');
+    } else {
+      if (!key.privateKey && !key.publicKey) throw invalid('A private or public key is required');
+
+      let keyType: string | undefined;
+      try {
+        keyType = this.toPublicKey(key).asymmetricKeyType;
+      } catch {
+        throw invalid('Key could not be read');
+      }
+      const expected = key.algorithm === 'RS256' ? ['rsa'] : ['ed25519', 'ed448'];
+      if (!keyType || !expected.includes(keyType)) throw invalid(`${key.algorithm} cannot use a ${keyType} key`);
+    }
+
+    this.keys.set(key.kid, key);
+  }
+
+  /**
+   * Removes a key; tokens it signed no longer verify
+   */
+  removeKey(kid: string): void {
+    if (kid === this.activeKid) {
+      throw new ValidationError('Invalid JWT key', [{ field: `keys.${kid}`, message: 'The active key cannot be removed' }]);
+    }
+    this.keys.delete(kid);
+  }
+
+  /**
+   * Switches the key that signs new tokens. Services that only verify
+   * tokens can hold public keys and never call this or `sign`.
+   */
+  setActiveKey(kid: string): void {
+    const key = this.keys.get(kid);
+    if (!key) throw new ValidationError('Invalid JWT key', [{ field: `keys.${kid}`, message: 'Unknown key id' }]);
+    if (key.algorithm !== 'HS256' && !key.privateKey) {
+      throw new ValidationError('Invalid JWT key', [{ field: `keys.${kid}`, message: 'A private key is required to sign' }]);
+    }
+    this.activeKid = kid;
+  }
+
+  /**
+   * Returns the lifetime of new access tokens in seconds
+   */
+  getAccessTokenExpiry(): number {
+    return this.accessTokenExpiry;
+  }
+
+  /**
+   * Signs an access token with the active key
+   * @param expiresIn Lifetime in seconds (default: `accessTokenExpiry`)
+   */
+  sign(claims: AccessTokenClaims, expiresIn: number = this.accessTokenExpiry): string {
+    const iat = Math.floor(this.clock.now().getTime() / 1000);
+    const validated = validateWithZod(userClaimsSchema, { ...claims, iat, exp: iat + expiresIn }, 'Invalid token claims');
+    const key = this.keys.get(this.activeKid)!;
+    if (key.algorithm !== 'HS256' && !key.privateKey) {
+      throw new ValidationError('Invalid JWT key', [{ field: `keys.${key.kid}`, message: 'A private key is required to sign' }]);
+    }
+
+    const header: JwtHeader = { alg: key.algorithm, typ: 'JWT', kid: key.kid };
+    const payload = {
+      ...validated,
+      jti: randomUUID(),
+      ...(this.options.issuer && { iss: this.options.issuer }),
+      ...(this.options.audience && { aud: this.options.audience }),
+    };
+
+    const signingInput = `${this.encode(header)}.${this.encode(payload)}`;
+    return `${signingInput}.${this.createSignature(key, signingInput).toString('base64url')}`;
+  }
+
+  /**
+   * Verifies a token's signature, times, issuer, audience and claims.
+   * Never throws; failures are reported in the result.
+   */
+  verify(token: string): TokenValidationResponse {
+    const decoded = JwtService.decode(token);
+    if (!decoded) return { isValid: false, error: 'Malformed token' };
+
+    const { header, payload } = decoded;
+    const key = this.keys.get(header.kid ?? this.activeKid);
+
+    if (!key) return { isValid: false, error: 'Unknown signing key' };
+    if (header.alg !== key.algorithm) return { isValid: false, error: 'Algorithm mismatch' };
+    if (!this.checkSignature(key, decoded)) return { isValid: false, error: 'Invalid signature' };
+
+    const now = Math.floor(this.clock.now().getTime() / 1000);
+
+    if (typeof payload.exp !== 'number') return { isValid: false, error: 'Missing expiry' };
+    if (now > payload.exp + this.clockSkew) return { isValid: false, isExpired: true, error: 'Token expired' };
+    if (typeof payload.nbf === 'number' && now + this.clockSkew < payload.nbf) {
+      return { isValid: false, error: 'Token not yet valid' };
+    }
+    if (typeof payload.iat === 'number' && now + this.clockSkew < payload.iat) {
+      return { isValid: false, error: 'Token issued in the future' };
+    }
+
+    if (this.options.issuer && payload.iss !== this.options.issuer) return { isValid: false, error: 'Invalid issuer' };
+    if (this.options.audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(this.options.audience)) return { isValid: false, error: 'Invalid audience' };
+    }
+
+    const claims = userClaimsSchema.safeParse(payload);
+    if (!claims.success) return { isValid: false, error: 'Invalid token claims' };
+
+    return { isValid: true, isExpired: false, user: claims.data };
+  }
+
+  /**
+   * Verifies a token and returns its claims
+   * @throws UnauthorizedError if the token is invalid or expired
+   */
+  verifyOrThrow(token: string): UserClaims {
+    const result = this.verify(token);
+    if (!result.isValid || !result.user) {
+      throw new UnauthorizedError(result.isExpired ? 'Token expired' : 'Invalid token', { reason: result.error });
+    }
+    return result.user;
+  }
+
+  /**
+   * Splits a token into its parts without verifying it
+   */
+  static decode(token: string): DecodedJwt | null {
+    const parts = token.split('.');
+    if (parts.length !== 3 || parts.some(part => !/^[A-Za-z0-9_-]*$/.test(part))) return null;
+
+    try {
+      const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+      if (!header || typeof header !== 'object' || typeof header.alg !== 'string') return null;
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+
+      return {
+        header,
+        payload,
+        signature: Buffer.from(parts[2], 'base64url'),
+        signingInput: `${parts[0]}.${parts[1]}`,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private createSignature(key: JwtKey, signingInput: string): Buffer {
+    const data = Buffer.from(signingInput);
+
+    switch (key.algorithm) {
+      case 'HS256':
+        return createHmac('sha256', key.secret!).update(data).digest();
+      case 'RS256':
+        return cryptoSign('sha256', data, this.toPrivateKey(key));
+      case 'EdDSA':
+        return cryptoSign(null, data, this.toPrivateKey(key));
+    }
+  }
+
+  private checkSignature(key: JwtKey, decoded: DecodedJwt): boolean {
+    const data = Buffer.from(decoded.signingInput);
+
+    try {
+      switch (key.algorithm) {
+        case 'HS256': {
+          const expected = createHmac('sha256', key.secret!).update(data).digest();
+          return expected.length === decoded.signature.length && timingSafeEqual(expected, decoded.signature);
+        }
+        case 'RS256':
+          return cryptoVerify('sha256', data, this.toPublicKey(key), decoded.signature);
+        case 'EdDSA':
+          return cryptoVerify(null, data, this.toPublicKey(key), decoded.signature);
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  private toPrivateKey(key: JwtKey): KeyObject {
+    return typeof key.privateKey === 'string' ? createPrivateKey(key.privateKey) : key.privateKey!;
+  }
+
+  private toPublicKey(key: JwtKey): KeyObject {
+    const source = key.publicKey ?? key.privateKey!;
+    if (typeof source !== 'string') return source.type === 'private' ? createPublicKey(source) : source;
+    return createPublicKey(source); // accepts public or private PEM
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+}
@@ -0,0 +1,123 @@
+import { FakeClock } from '../utils/time';
+import { InMemoryOtpStore, OtpSender, OtpService } from './otp';
+
+const phone = '+966501234567';
+
+describe('OtpService', () => {
+  let clock: FakeClock;
+  let sent: Parameters<OtpSender['send']>[0][];
+  let service: OtpService;
+
+  const lastCode = () => sent[sent.length - 1].code;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-01-01T00:00:00Z');
+    sent = [];
+    service = new OtpService(
+      new InMemoryOtpStore(),
+      { send: async message => { sent.push(message); } },
+      { secret: 's'.repeat(32) },
+      clock
+    );
+  });
+
+  it('sends a numeric code and accepts it once', async () => {
+    const result = await service.request('+966 50 123 4567', 'login');
+
+    expect(result.channel).toBe('sms');
+    expect(sent[0]).toMatchObject({ to: phone, purpose: 'login', expiresIn: 300 });
+    expect(lastCode()).toMatch(/^\d{6}$/);
+
+    await expect(service.verify(phone, 'login', lastCode())).resolves.toBeUndefined();
+    await expect(service.verify(phone, 'login', lastCode())).rejects.toThrow('Code expired or not found');
+  });
+
+  it('accepts a code only once when verified in parallel', async () => {
+    await service.request(phone, 'login');
+    const results = await Promise.allSettled([
+      service.verify(phone, 'login', lastCode()),
+      service.verify(phone, 'login', lastCode()),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('keeps codes for different purposes apart', async () => {
+    await service.request(phone, 'login');
+
+    await expect(service.verify(phone, 'reset', lastCode())).rejects.toThrow('Code expired or not found');
+  });
+
+  it('expires codes after otpExpiry', async () => {
+    await service.request(phone, 'login');
+    clock.advance(300, 'seconds');
+
+    await expect(service.verify(phone, 'login', lastCode())).rejects.toThrow('Code expired or not found');
+  });
+
+  it('discards a code after maxAttempts wrong guesses', async () => {
+    await service.request(phone, 'login');
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let i = 0; i < 4; i++) {
+      await expect(service.verify(phone, 'login', wrong)).rejects.toThrow('Invalid code');
+    }
+    await expect(service.verify(phone, 'login', wrong)).rejects.toThrow('Too many attempts');
+    await expect(service.verify(phone, 'login', code)).rejects.toThrow('Code expired or not found');
+  });
+
+  it('evaluates at most maxAttempts of a burst of parallel wrong guesses', async () => {
+    await service.request(phone, 'login');
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+    const matches = jest.spyOn(service as unknown as { matches: () => boolean }, 'matches');
+
+    const results = await Promise.allSettled(Array.from({ length: 20 }, () => service.verify(phone, 'login', wrong)));
+
+    expect(matches).toHaveBeenCalledTimes(5);
+    expect(results.every(result => result.status === 'rejected')).toBe(true);
+    await expect(service.verify(phone, 'login', code)).rejects.toThrow('Code expired or not found');
+  });
+
+  it('sends only one code for parallel requests within the cooldown', async () => {
+    const results = await Promise.allSettled([service.request(phone, 'login'), service.request(phone, 'login')]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('lets the user ask again straight away when sending fails', async () => {
+    const failing = new OtpService(
+      new InMemoryOtpStore(),
+      { send: async () => { throw new Error('SMS gateway down'); } },
+      { secret: 's'.repeat(32), maxSends: 1 },
+      clock
+    );
+
+    await expect(failing.request(phone, 'login')).rejects.toThrow('SMS gateway down');
+    await expect(failing.request(phone, 'login')).rejects.toThrow('SMS gateway down');
+  });
+
+  it('enforces the resend cooldown', async () => {
+    await service.request(phone, 'login');
+
+    await expect(service.request(phone, 'login')).rejects.toMatchObject({ details: { retryAfter: 60 } });
+
+    clock.advance(60, 'seconds');
+    await expect(service.request(phone, 'login')).resolves.toMatchObject({ channel: 'sms' });
+  });
+
+  it('caps the codes sent within the send window', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.request(phone, 'login');
+      clock.advance(60, 'seconds');
+    }
+
+    await expect(service.request(phone, 'login')).rejects.toThrow('Too many codes requested');
+    await expect(service.request(phone, 'login')).rejects.toMatchObject({ details: { retryAfter: 3600 - 5 * 60 } });
+
+    clock.advance(3600 - 5 * 60, 'seconds');
+    await expect(service.request(phone, 'login')).resolves.toMatchObject({ channel: 'sms' });
+  });
+});
@@ -0,0 +1,312 @@
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { authConfigSchema, otpPurposeSchema, otpRecordSchema } from '../schemas/auth';
+import { BadRequestError, RateLimitError, ValidationError } from '../utils/errors';
+import { Clock, systemClock } from '../utils/time';
+import { AuthConfig, validatePhoneOrEmail } from '../utils/validation';
+
+export type OtpPurpose = z.infer<typeof otpPurposeSchema>;
+export type OtpRecord = z.infer<typeof otpRecordSchema>;
+export type OtpChannel = OtpRecord['channel'];
+
+/**
+ * Persistence for one-time codes, holding at most one per identifier and
+ * purpose. `incrementAttempts`, `consume` and `addSend` must be atomic, so
+ * that parallel requests are all counted and a code cannot be used twice.
+ */
+export interface OtpStore {
+  find(identifier: string, purpose: OtpPurpose): Promise<OtpRecord | null>;
+  /** Saves a code, replacing any other for the same identifier and purpose */
+  save(record: OtpRecord): Promise<void>;
+  /** Adds a failed attempt to a code and returns the new count, or null if the code is gone */
+  incrementAttempts(id: string): Promise<number | null>;
+  /** Deletes a code that was used; returns false if it was already gone */
+  consume(id: string): Promise<boolean>;
+  delete(id: string): Promise<void>;
+  /**
+   * Records a code sent to an identifier for a purpose, unless `limit` codes
+   * were already sent within `windowMs` or the last one less than
+   * `cooldownMs` ago. Returns whether it was recorded and the times (epoch
+   * milliseconds) of the sends within the window.
+   */
+  addSend(
+    identifier: string,
+    purpose: OtpPurpose,
+    now: number,
+    limits: OtpSendLimits
+  ): Promise<{ recorded: boolean; sends: number[] }>;
+  /** Forgets a send recorded at `time`, for a code that never reached the user */
+  removeSend(identifier: string, purpose: OtpPurpose, time: number): Promise<void>;
+}
+
+export interface OtpSendLimits {
+  windowMs: number;
+  limit: number;
+  cooldownMs: number;
+}
+
+/**
+ * Keeps codes in memory, for tests and single-process servers
+ */
+export class InMemoryOtpStore implements OtpStore {
+  private readonly records = new Map<string, OtpRecord>();
+  private readonly sends = new Map<string, number[]>();
+
+  async find(identifier: string, purpose: OtpPurpose): Promise<OtpRecord | null> {
+    const record = this.records.get(`${purpose}:${identifier}`);
+    return record ? { ...record } : null;
+  }
+
+  async save(record: OtpRecord): Promise<void> {
+    this.records.set(`${record.purpose}:${record.identifier}`, otpRecordSchema.parse(record));
+  }
+
+  async incrementAttempts(id: string): Promise<number | null> {
+    const record = Array.from(this.records.values()).find(item => item.id === id);
+    if (!record) return null;
+
+    record.attempts++;
+    return record.attempts;
+  }
+
+  async consume(id: string): Promise<boolean> {
+    const key = Array.from(this.records.keys()).find(item => this.records.get(item)!.id === id);
+    return key !== undefined && this.records.delete(key);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.consume(id);
+  }
+
+  async addSend(
+    identifier: string,
+    purpose: OtpPurpose,
+    now: number,
+    limits: OtpSendLimits
+  ): Promise<{ recorded: boolean; sends: number[] }> {
+    const key = `${purpose}:${identifier}`;
+    const sends = (this.sends.get(key) || []).filter(time => time > now - limits.windowMs);
+    const last = sends[sends.length - 1];
+    const recorded = sends.length < limits.limit && (last === undefined || last + limits.cooldownMs <= now);
+
+    if (recorded) sends.push(now);
+    this.sends.set(key, sends);
+    return { recorded, sends: sends.slice() };
+  }
+
+  async removeSend(identifier: string, purpose: OtpPurpose, time: number): Promise<void> {
+    const sends = this.sends.get(`${purpose}:${identifier}`);
+    const index = sends ? sends.lastIndexOf(time) : -1;
+    if (index !== -1) sends!.splice(index, 1);
+  }
+}
+
+/**
+ * Delivers codes by SMS or email
+ */
+export interface OtpSender {
+  send(message: { to: string; channel: OtpChannel; code: string; purpose: OtpPurpose; expiresIn: number }): Promise<void>;
+}
+
+export interface OtpOptions {
+  /** Key codes are hashed with, so stored hashes cannot be brute-forced without it */
+  secret: string | Buffer;
+  /** `otpExpiry` sets how long codes stay valid (seconds) */
+  config?: Partial<AuthConfig>;
+  /** Digits per code (default: 6) */
+  codeLength?: number;
+  /** Wrong guesses before a code is discarded (default: 5) */
+  maxAttempts?: number;
+  /** Seconds before another code may be sent (default: 60) */
+  resendCooldown?: number;
+  /** Codes that may be sent to an identifier for one purpose within `sendWindow` (default: 5) */
+  maxSends?: number;
+  /** Seconds over which sends are counted (default: 3600) */
+  sendWindow?: number;
+}
+
+export interface OtpRequestResult {
+  channel: OtpChannel;
+  expiresAt: Date;
+  /** When the next code may be requested */
+  resendAvailableAt: Date;
+}
+
+/**
+ * Sends and checks one-time codes for phone and email login, verification
+ * and password resets.
+ *
+ * Each identifier has at most one live code per purpose; requesting a new
+ * one replaces it, but only after `resendCooldown` and no more than
+ * `maxSends` times per `sendWindow`, which bounds the guesses an attacker
+ * gets across resends. Codes are random numbers from the platform's secure
+ * generator and only their keyed hash is stored. A code works once, until
+ * `otpExpiry`, and is discarded after `maxAttempts` wrong guesses.
+ */
+export class OtpService {
+  private readonly expiry: number;
+  private readonly codeLength: number;
+  private readonly maxAttempts: number;
+  private readonly resendCooldown: number;
+  private readonly maxSends: number;
+  private readonly sendWindowMs: number;
+
+  constructor(
+    private readonly store: OtpStore,
+    private readonly sender: OtpSender,
+    private readonly options: OtpOptions,
+    private readonly clock: Clock = systemClock
+  ) {
+    this.expiry = authConfigSchema.parse(options.config ?? {}).otpExpiry;
+    this.codeLength = options.codeLength ?? 6;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.resendCooldown = options.resendCooldown ?? 60;
+    this.maxSends = options.maxSends ?? 5;
+    this.sendWindowMs = (options.sendWindow ?? 3600) * 1000;
+
+    if (!Number.isInteger(this.codeLength) || this.codeLength < 4 || this.codeLength > 10) {
+      throw new ValidationError('Invalid OTP configuration', [{ field: 'codeLength', message: 'Must be 4 to 10 digits' }]);
+    }
+    if (!options.secret || Buffer.byteLength(options.secret) < 32) {
+      throw new ValidationError('Invalid OTP configuration', [{ field: 'secret', message: 'Must be at least 32 bytes' }]);
+    }
+  }
+
+  /**
+   * Normalizes a phone number or email, as codes are stored under it
+   */
+  static normalizeIdentifier(identifier: string): string {
+    const trimmed = identifier.trim();
+    return trimmed.includes('@') ? trimmed.toLowerCase() : trimmed.replace(/[\s()-]/g, '');
+  }
+
+  /**
+   * Generates a code and sends it, replacing any earlier code for the purpose
+   * @throws RateLimitError with `retryAfter` (seconds) during the resend
+   * cooldown or once `maxSends` codes were sent within `sendWindow`
+   */
+  async request(identifier: string, purpose: OtpPurpose): Promise<OtpRequestResult> {
+    const to = OtpService.normalizeIdentifier(identifier);
+    const channel = this.getChannel(to);
+    const now = this.clock.now();
+
+    // Cooldown and cap are checked and recorded in one step, so parallel requests cannot both pass
+    const { recorded, sends } = await this.store.addSend(to, purpose, now.getTime(), {
+      windowMs: this.sendWindowMs,
+      limit: this.maxSends,
+      cooldownMs: this.resendCooldown * 1000,
+    });
+    if (!recorded) {
+      if (sends.length >= this.maxSends) {
+        throw new RateLimitError('Too many codes requested. Please try again later.', {
+          retryAfter: Math.ceil((sends[0] + this.sendWindowMs - now.getTime()) / 1000),
+        });
+      }
+      throw new RateLimitError('Please wait before requesting a new code', {
+        retryAfter: Math.ceil((sends[sends.length - 1] + this.resendCooldown * 1000 - now.getTime()) / 1000),
+      });
+    }
+
+    const code = this.generateCode();
+    const record: OtpRecord = {
+      id: randomUUID(),
+      identifier: to,
+      purpose,
+      channel,
+      codeHash: this.hash(code, to, purpose),
+      attempts: 0,
+      expiresAt: new Date(now.getTime() + this.expiry * 1000).toISOString(),
+      createdAt: now.toISOString(),
+    };
+
+    await this.store.save(record);
+    try {
+      await this.sender.send({ to, channel, code, purpose, expiresIn: this.expiry });
+    } catch (error) {
+      // Nobody received the code, so let the user ask again straight away
+      await this.store.delete(record.id);
+      await this.store.removeSend(to, purpose, now.getTime());
+      throw error;
+    }
+
+    return {
+      channel,
+      expiresAt: new Date(record.expiresAt),
+      resendAvailableAt: new Date(now.getTime() + this.resendCooldown * 1000),
+    };
+  }
+
+  /**
+   * Checks a code and uses it up
+   * @throws BadRequestError if no live code exists, ValidationError if the
+   * code is wrong, RateLimitError once too many wrong codes were tried
+   */
+  async verify(identifier: string, purpose: OtpPurpose, code: string): Promise<void> {
+    const to = OtpService.normalizeIdentifier(identifier);
+    const record = await this.store.find(to, purpose);
+
+    if (!record || Date.parse(record.expiresAt) <= this.clock.now().getTime()) {
+      if (record) await this.store.delete(record.id);
+      throw new BadRequestError('Code expired or not found. Please request a new code.');
+    }
+
+    // Count the attempt before checking it, so parallel guesses cannot exceed maxAttempts
+    const attempts = await this.store.incrementAttempts(record.id);
+    if (attempts === null) {
+      throw new BadRequestError('Code expired or not found. Please request a new code.');
+    }
+    if (attempts > this.maxAttempts) {
+      await this.store.delete(record.id);
+      throw new RateLimitError('Too many attempts. Please request a new code.');
+    }
+
+    if (this.matches(code.trim(), record)) {
+      // Only the request that removes the code may use it
+      if (await this.store.consume(record.id)) return;
+      throw new BadRequestError('Code expired or not found. Please request a new code.');
+    }
+
+    if (attempts >= this.maxAttempts) {
+      await this.store.delete(record.id);
+      throw new RateLimitError('Too many attempts. Please request a new code.');
+    }
+
+    throw new ValidationError('Invalid code', [
+      { field: 'code', message: `Invalid code, ${this.maxAttempts - attempts} attempts left` },
+    ]);
+  }
+
+  /**
+   * Checks the code of a `verifyCodeRequestSchema` or
+   * `phoneVerificationRequestSchema` request
+   */
+  async verifyRequest(
+    request: { email?: string; phone?: string; code: string },
+    purpose: OtpPurpose
+  ): Promise<void> {
+    return this.verify(request.email || request.phone || '', purpose, request.code);
+  }
+
+  private matches(code: string, record: OtpRecord): boolean {
+    // Hashing first gives equal-length inputs, whatever was submitted
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const actual = Buffer.from(this.hash(code, record.identifier, record.purpose), 'hex');
+    return timingSafeEqual(expected, actual);
+  }
+
+  private generateCode(): string {
+    return randomInt(0, Math.pow(10, this.codeLength)).toString().padStart(this.codeLength, '0');
+  }
+
+  private hash(code: string, identifier: string, purpose: OtpPurpose): string {
+    return createHmac('sha256', this.options.secret).update(`${purpose}:${identifier}:${code}`).digest('hex');
+  }
+
+  private getChannel(identifier: string): OtpChannel {
+    try {
+      return validatePhoneOrEmail(identifier) === 'email' ? 'email' : 'sms';
+    } catch {
+      throw new ValidationError('Invalid identifier', [{ field: 'identifier', message: 'Must be a phone number or email' }]);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { jwtTokenSchema } from '../schemas/common';
+import { FakeClock } from '../utils/time';
+import { InMemoryRefreshTokenStore, RefreshTokenService } from './refreshToken';
+
+const userId = '11111111-1111-4111-8111-111111111111';
+
+describe('RefreshTokenService', () => {
+  let clock: FakeClock;
+  let store: InMemoryRefreshTokenStore;
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-01-01T00:00:00Z');
+    store = new InMemoryRefreshTokenStore();
+    service = new RefreshTokenService(store, { refreshTokenExpiry: 3600 }, clock);
+  });
+
+  it('issues tokens that pass jwtTokenSchema and rotates them within the family', async () => {
+    const first = await service.issue(userId, 'phone');
+    const second = await service.rotate(first.refreshToken);
+
+    expect(jwtTokenSchema.safeParse(first.refreshToken).success).toBe(true);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(second.session.id).toBe(first.session.id);
+    expect(second.expiresIn).toBe(3600);
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const first = await service.issue(userId, 'phone');
+    const second = await service.rotate(first.refreshToken);
+
+    await expect(service.rotate(first.refreshToken)).rejects.toThrow('Refresh token reuse detected');
+    await expect(service.rotate(second.refreshToken)).rejects.toThrow('Session revoked');
+    expect((await store.findSession(first.session.id))!.revokedReason).toBe('REUSE_DETECTED');
+  });
+
+  it('lets only one of two racing refreshes succeed', async () => {
+    const { refreshToken } = await service.issue(userId, 'phone');
+    const results = await Promise.allSettled([service.rotate(refreshToken), service.rotate(refreshToken)]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('rejects expired and forged tokens', async () => {
+    const { refreshToken } = await service.issue(userId, 'phone');
+
+    await expect(service.rotate(`${refreshToken.slice(0, -4)}AAAA`)).rejects.toThrow('Invalid refresh token');
+
+    clock.advance(3600, 'seconds');
+    await expect(service.rotate(refreshToken)).rejects.toThrow('Refresh token expired');
+  });
+
+  it('keeps one session per device and logs out one or all devices', async () => {
+    const replaced = await service.issue(userId, 'phone');
+    await service.issue(userId, 'phone');
+    await service.issue(userId, 'tablet');
+
+    expect((await store.findSession(replaced.session.id))!.revokedReason).toBe('REPLACED');
+    expect((await service.getActiveSessions(userId)).map(session => session.deviceId).sort()).toEqual(['phone', 'tablet']);
+
+    await service.logout(userId, { deviceId: 'tablet' });
+    expect((await service.getActiveSessions(userId)).map(session => session.deviceId)).toEqual(['phone']);
+
+    await service.logout(userId, { allDevices: true });
+    expect(await service.getActiveSessions(userId)).toEqual([]);
+  });
+});
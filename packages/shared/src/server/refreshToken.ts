@@ -0,0 +1,302 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import {
+  authConfigSchema,
+  logoutRequestSchema,
+  refreshSessionSchema,
+  refreshTokenRecordSchema,
+  sessionRevocationReasonSchema,
+} from '../schemas/auth';
+import { UnauthorizedError } from '../utils/errors';
+import { Clock, systemClock } from '../utils/time';
+import { AuthConfig } from '../utils/validation';
+
+export type RefreshSession = z.infer<typeof refreshSessionSchema>;
+export type RefreshTokenRecord = z.infer<typeof refreshTokenRecordSchema>;
+export type SessionRevocationReason = z.infer<typeof sessionRevocationReasonSchema>;
+export type LogoutRequest = z.input<typeof logoutRequestSchema>;
+
+/**
+ * Persistence for refresh sessions and tokens. `rotateToken` must be
+ * atomic, so that two requests racing with the same token cannot both
+ * rotate it.
+ */
+export interface RefreshTokenStore {
+  findSession(id: string): Promise<RefreshSession | null>;
+  findSessionsByUser(userId: string): Promise<RefreshSession[]>;
+  /** Creates or replaces a session */
+  saveSession(session: RefreshSession): Promise<void>;
+  findToken(id: string): Promise<RefreshTokenRecord | null>;
+  saveToken(record: RefreshTokenRecord): Promise<void>;
+  /**
+   * Marks a token rotated and saves its replacement, if the token is still
+   * active; returns false otherwise
+   */
+  rotateToken(id: string, replacement: RefreshTokenRecord, rotatedAt: string): Promise<boolean>;
+  /** Revokes a session and its active tokens */
+  revokeSession(id: string, reason: SessionRevocationReason, revokedAt: string): Promise<void>;
+  /** Deletes sessions that expired before a time, with their tokens; returns how many */
+  deleteExpired(before: string): Promise<number>;
+}
+
+/**
+ * Keeps sessions and tokens in memory, for tests and single-process servers
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private readonly sessions = new Map<string, RefreshSession>();
+  private readonly tokens = new Map<string, RefreshTokenRecord>();
+
+  async findSession(id: string): Promise<RefreshSession | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async findSessionsByUser(userId: string): Promise<RefreshSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .map(session => ({ ...session }));
+  }
+
+  async saveSession(session: RefreshSession): Promise<void> {
+    this.sessions.set(session.id, refreshSessionSchema.parse(session));
+  }
+
+  async findToken(id: string): Promise<RefreshTokenRecord | null> {
+    const record = this.tokens.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async saveToken(record: RefreshTokenRecord): Promise<void> {
+    this.tokens.set(record.id, refreshTokenRecordSchema.parse(record));
+  }
+
+  async rotateToken(id: string, replacement: RefreshTokenRecord, rotatedAt: string): Promise<boolean> {
+    const record = this.tokens.get(id);
+    if (!record || record.status !== 'ACTIVE') return false;
+
+    this.tokens.set(id, { ...record, status: 'ROTATED', rotatedAt });
+    this.tokens.set(replacement.id, refreshTokenRecordSchema.parse(replacement));
+    return true;
+  }
+
+  async revokeSession(id: string, reason: SessionRevocationReason, revokedAt: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session && !session.revokedAt) {
+      this.sessions.set(id, { ...session, revokedAt, revokedReason: reason, updatedAt: revokedAt });
+    }
+
+    this.tokens.forEach((record, tokenId) => {
+      if (record.familyId === id && record.status === 'ACTIVE') {
+        this.tokens.set(tokenId, { ...record, status: 'REVOKED' });
+      }
+    });
+  }
+
+  async deleteExpired(before: string): Promise<number> {
+    const cutoff = Date.parse(before);
+    const expired = Array.from(this.sessions.values()).filter(session => Date.parse(session.expiresAt) < cutoff);
+    const ids = expired.map(session => session.id);
+
+    ids.forEach(id => this.sessions.delete(id));
+    Array.from(this.tokens.values())
+      .filter(record => ids.includes(record.familyId))
+      .forEach(record => this.tokens.delete(record.id));
+
+    return expired.length;
+  }
+}
+
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface RefreshTokenGrant {
+  /** Opaque token shaped like a JWT (`<tokenId>.<familyId>.<secret>`), so it passes `jwtTokenSchema` */
+  refreshToken: string;
+  /** Seconds until the refresh token expires */
+  expiresIn: number;
+  session: RefreshSession;
+}
+
+/**
+ * Issues and rotates refresh tokens.
+ *
+ * Each login starts a session (a token family) for one device, replacing
+ * any session the device already had. Every refresh retires the presented
+ * token and issues its successor in the same family. A retired token that
+ * is presented again means the token was copied, so the whole session is
+ * revoked and the device has to sign in again.
+ */
+export class RefreshTokenService {
+  private readonly refreshTokenExpiry: number;
+
+  constructor(
+    private readonly store: RefreshTokenStore,
+    config: Partial<AuthConfig> = {},
+    private readonly clock: Clock = systemClock
+  ) {
+    this.refreshTokenExpiry = authConfigSchema.parse(config).refreshTokenExpiry;
+  }
+
+  /**
+   * Starts a session for a user's device after they sign in
+   */
+  async issue(userId: string, deviceId: string, context: SessionContext = {}): Promise<RefreshTokenGrant> {
+    const now = this.clock.now();
+
+    const existing = await this.store.findSessionsByUser(userId);
+    await Promise.all(existing
+      .filter(session => session.deviceId === deviceId && !session.revokedAt)
+      .map(session => this.store.revokeSession(session.id, 'REPLACED', now.toISOString())));
+
+    const familyId = randomUUID();
+    const { token, record } = this.createToken(userId, familyId, null, now);
+    const session: RefreshSession = {
+      id: familyId,
+      userId,
+      deviceId,
+      currentTokenId: record.id,
+      userAgent: context.userAgent ?? null,
+      ipAddress: context.ipAddress ?? null,
+      expiresAt: record.expiresAt,
+      revokedAt: null,
+      revokedReason: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await this.store.saveToken(record);
+    await this.store.saveSession(session);
+
+    return { refreshToken: token, expiresIn: this.refreshTokenExpiry, session };
+  }
+
+  /**
+   * Exchanges a refresh token for its successor
+   * @throws UnauthorizedError if the token is unknown, expired, revoked or reused
+   */
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<RefreshTokenGrant> {
+    const now = this.clock.now();
+    const { record, session } = await this.find(refreshToken);
+
+    if (session.revokedAt) {
+      throw new UnauthorizedError('Session revoked', { reason: session.revokedReason });
+    }
+    if (record.status !== 'ACTIVE') {
+      return this.handleReuse(session, now);
+    }
+    if (Date.parse(record.expiresAt) <= now.getTime()) {
+      throw new UnauthorizedError('Refresh token expired');
+    }
+
+    const { token, record: replacement } = this.createToken(session.userId, session.id, record.id, now);
+    if (!await this.store.rotateToken(record.id, replacement, now.toISOString())) {
+      // Another request rotated the token first
+      return this.handleReuse(session, now);
+    }
+
+    const updated: RefreshSession = {
+      ...session,
+      currentTokenId: replacement.id,
+      userAgent: context.userAgent ?? session.userAgent,
+      ipAddress: context.ipAddress ?? session.ipAddress,
+      expiresAt: replacement.expiresAt,
+      updatedAt: now.toISOString(),
+    };
+    await this.store.saveSession(updated);
+
+    return { refreshToken: token, expiresIn: this.refreshTokenExpiry, session: updated };
+  }
+
+  /**
+   * Signs out, following `logoutRequestSchema`: every device with
+   * `allDevices`, otherwise the session of the given refresh token or device
+   */
+  async logout(userId: string, request: LogoutRequest): Promise<void> {
+    const now = this.clock.now().toISOString();
+
+    if (request.allDevices) {
+      const sessions = await this.store.findSessionsByUser(userId);
+      await Promise.all(sessions
+        .filter(session => !session.revokedAt)
+        .map(session => this.store.revokeSession(session.id, 'LOGOUT_ALL', now)));
+      return;
+    }
+
+    if (request.refreshToken) {
+      const { session } = await this.find(request.refreshToken);
+      if (session.userId === userId) await this.store.revokeSession(session.id, 'LOGOUT', now);
+      return;
+    }
+
+    if (request.deviceId) {
+      const sessions = await this.store.findSessionsByUser(userId);
+      await Promise.all(sessions
+        .filter(session => session.deviceId === request.deviceId && !session.revokedAt)
+        .map(session => this.store.revokeSession(session.id, 'LOGOUT', now)));
+    }
+  }
+
+  /**
+   * Lists a user's sessions that can still be refreshed
+   */
+  async getActiveSessions(userId: string): Promise<RefreshSession[]> {
+    const now = this.clock.now().getTime();
+    const sessions = await this.store.findSessionsByUser(userId);
+    return sessions.filter(session => !session.revokedAt && Date.parse(session.expiresAt) > now);
+  }
+
+  private async find(refreshToken: string): Promise<{ record: RefreshTokenRecord; session: RefreshSession }> {
+    const [tokenId, familyId, secret] = refreshToken.split('.');
+    const invalid = new UnauthorizedError('Invalid refresh token');
+
+    if (!tokenId || !familyId || !secret || !z.string().uuid().safeParse(tokenId).success) throw invalid;
+
+    const record = await this.store.findToken(tokenId);
+    if (!record || record.familyId !== familyId) throw invalid;
+
+    const expected = Buffer.from(record.tokenHash, 'hex');
+    const actual = Buffer.from(this.hash(refreshToken), 'hex');
+    if (!timingSafeEqual(expected, actual)) throw invalid;
+
+    const session = await this.store.findSession(familyId);
+    if (!session) throw invalid;
+
+    return { record, session };
+  }
+
+  private async handleReuse(session: RefreshSession, now: Date): Promise<never> {
+    await this.store.revokeSession(session.id, 'REUSE_DETECTED', now.toISOString());
+    throw new UnauthorizedError('Refresh token reuse detected', { sessionId: session.id });
+  }
+
+  private createToken(
+    userId: string,
+    familyId: string,
+    parentId: string | null,
+    now: Date
+  ): { token: string; record: RefreshTokenRecord } {
+    const id = randomUUID();
+    const token = `${id}.${familyId}.${randomBytes(32).toString('base64url')}`;
+
+    return {
+      token,
+      record: {
+        id,
+        familyId,
+        userId,
+        parentId,
+        tokenHash: this.hash(token),
+        status: 'ACTIVE',
+        expiresAt: new Date(now.getTime() + this.refreshTokenExpiry * 1000).toISOString(),
+        rotatedAt: null,
+        createdAt: now.toISOString(),
+      },
+    };
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
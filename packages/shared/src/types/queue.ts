@@ -24,6 +24,7 @@ export interface QueueEntry {
   status: QueueEntryStatus;
   position: number;
   vip: boolean;
+  partySize?: number; // defaults to 1
   estimatedWaitTime?: number; // in seconds
   calledAt?: Date;
   servedAt?: Date;
@@ -47,6 +47,7 @@ export interface UserDevice {
   osName?: string;
   osVersion?: string;
   pushToken?: string;
+  pushTokenInvalidatedAt?: Date; // set when the push provider rejects the token
   lastActiveAt: Date;
   createdAt: Date;
   updatedAt: Date;
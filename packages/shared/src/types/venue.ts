@@ -10,6 +10,7 @@ export interface Venue {
   city: string;
   country: string;
   coordinates: Coordinates;
+  timezone?: string; // IANA timezone, e.g. Asia/Riyadh
   phoneNumber?: string;
   email?: string;
   website?: string;
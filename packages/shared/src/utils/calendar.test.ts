@@ -0,0 +1,66 @@
+import { createHoursExceptionSchema } from '../schemas/calendar';
+import { HoursExceptionRule, HoursExceptionUtils } from './calendar';
+
+const covered = (exception: HoursExceptionRule, dates: string[]) =>
+  dates.filter(date => HoursExceptionUtils.matches(exception, date));
+
+describe('HoursExceptionUtils', () => {
+  it('repeats a yearly range across the new year', () => {
+    const dates = ['2026-01-01', '2026-12-30', '2026-12-31', '2027-01-01', '2027-01-02', '2027-01-03', '2028-01-02'];
+
+    expect(covered({ startDate: '2026-12-31', endDate: '2027-01-02', recurrence: 'YEARLY' }, dates))
+      .toEqual(['2026-12-31', '2027-01-01', '2027-01-02', '2028-01-02']);
+    expect(covered({ startDate: '2026-12-31', endDate: '2026-01-02', recurrence: 'YEARLY' }, dates))
+      .toEqual(['2026-12-31', '2027-01-01', '2027-01-02', '2028-01-02']);
+  });
+
+  it('follows Hijri recurrences as they move through the Gregorian year', () => {
+    // 1-3 Shawwal 1447 (Eid al-Fitr); 1 Shawwal falls on 2027-03-09 and 2028-02-26
+    const eid: HoursExceptionRule = { startDate: '2026-03-20', endDate: '2026-03-22', recurrence: 'YEARLY_HIJRI' };
+
+    expect(covered(eid, ['2026-03-19', '2026-03-20', '2027-03-08', '2027-03-09', '2027-03-11', '2027-03-20', '2028-02-26']))
+      .toEqual(['2026-03-20', '2027-03-09', '2027-03-11', '2028-02-26']);
+  });
+
+  it('prefers the shortest exception covering a date', () => {
+    const closedWeek = { startDate: '2026-12-24', endDate: '2026-12-31' };
+    const openDay = { startDate: '2026-12-28', isClosed: false, hours: [{ openTime: '10:00', closeTime: '14:00' }] };
+    const rules = [{ dayOfWeek: 1, openTime: '09:00', closeTime: '17:00' }];
+
+    expect(HoursExceptionUtils.findException([openDay, closedWeek], '2026-12-28')).toBe(openDay);
+    expect(HoursExceptionUtils.resolveRulesForDate(rules, [closedWeek, openDay], '2026-12-28'))
+      .toEqual([{ dayOfWeek: 1, openTime: '10:00', closeTime: '14:00', is24Hours: undefined }]);
+    expect(HoursExceptionUtils.resolveRulesForDate(rules, [closedWeek], '2026-12-28')).toEqual([]);
+  });
+});
+
+describe('createHoursExceptionSchema', () => {
+  const exception = (startDate: string, endDate: string, recurrence: 'NONE' | 'YEARLY' | 'YEARLY_HIJRI') =>
+    createHoursExceptionSchema.safeParse({
+      scope: 'VENUE',
+      scopeId: '11111111-1111-4111-8111-111111111111',
+      name: 'Holiday',
+      startDate,
+      endDate,
+      recurrence,
+    });
+
+  it('accepts forward ranges and yearly ranges wrapping from December into January', () => {
+    expect(exception('2026-03-01', '2026-03-05', 'NONE').success).toBe(true);
+    expect(exception('2026-12-24', '2026-01-02', 'YEARLY').success).toBe(true);
+    expect(exception('2026-12-24', '2027-01-02', 'YEARLY').success).toBe(true);
+  });
+
+  it('rejects reversed ranges that are not a yearly new year wrap', () => {
+    const result = exception('2026-06-01', '2026-03-01', 'YEARLY');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0]).toMatchObject({
+      path: ['endDate'],
+      message: 'End date must be after or equal to start date',
+    });
+    expect(exception('2026-12-24', '2026-01-02', 'NONE').success).toBe(false);
+    expect(exception('2026-12-24', '2026-01-02', 'YEARLY_HIJRI').success).toBe(false);
+    expect(exception('2026-11-24', '2026-01-02', 'YEARLY').success).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import {
+  createHoursExceptionSchema,
+  hoursExceptionSchema,
+  updateHoursExceptionSchema,
+} from '../schemas/calendar';
+import { BadRequestError } from './errors';
+import { WeeklyHoursRule } from './hours';
+import { TimeUtils } from './time';
+
+export type HoursException = z.infer<typeof hoursExceptionSchema>;
+
+export type CreateHoursExceptionInput = z.infer<typeof createHoursExceptionSchema>;
+
+export type UpdateHoursExceptionInput = z.infer<typeof updateHoursExceptionSchema>;
+
+/**
+ * The parts of an hours exception that affect opening hours; stored
+ * `HoursException` records fit
+ */
+export interface HoursExceptionRule {
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD, inclusive; defaults to startDate
+  isClosed?: boolean; // defaults to true
+  hours?: {
+    openTime?: string | null;
+    closeTime?: string | null;
+    is24Hours?: boolean;
+  }[];
+  recurrence?: 'NONE' | 'YEARLY' | 'YEARLY_HIJRI';
+}
+
+const DAY = 86400000;
+
+/**
+ * Resolves holiday and special-hours exceptions against a weekly pattern.
+ * Dates are calendar dates in the venue's local time.
+ */
+export class HoursExceptionUtils {
+  /**
+   * Checks whether an exception covers a date. Yearly exceptions repeat on
+   * the same month and day from their start date on, and may wrap around
+   * the new year from December into January; a yearly Feb 29 only falls on
+   * leap years. Hijri yearly
+   * exceptions do the same in the Umm al-Qura calendar, so one ending on
+   * the 30th skips the years that month has 29 days.
+   */
+  static matches(exception: HoursExceptionRule, date: string): boolean {
+    const endDate = exception.endDate || exception.startDate;
+
+    if (exception.recurrence !== 'YEARLY' && exception.recurrence !== 'YEARLY_HIJRI') {
+      return date >= exception.startDate && date <= endDate;
+    }
+    if (date < exception.startDate) return false;
+
+    const toDay = (value: string) => exception.recurrence === 'YEARLY_HIJRI'
+      ? this.getHijriMonthDay(value)
+      : value.slice(5);
+    const day = toDay(date);
+    const start = toDay(exception.startDate);
+    const end = toDay(endDate);
+
+    return start <= end
+      ? day >= start && day <= end
+      : day >= start || day <= end;
+  }
+
+  /**
+   * Returns the exception in force on a date. When several cover it, the one
+   * spanning the fewest days wins (a one-day special opening inside a
+   * closed week), then the one listed last.
+   */
+  static findException<T extends HoursExceptionRule>(exceptions: T[], date: string): T | null {
+    let found: T | null = null;
+    let foundLength = Infinity;
+
+    exceptions.forEach(exception => {
+      if (!this.matches(exception, date)) return;
+      const length = this.getSpanLength(exception);
+      if (length <= foundLength) {
+        found = exception;
+        foundLength = length;
+      }
+    });
+
+    return found;
+  }
+
+  /**
+   * Returns the hours rules in force on a date: the weekly rules for its day
+   * of the week, or the custom hours of an exception (none when closed)
+   */
+  static resolveRulesForDate(
+    rules: WeeklyHoursRule[],
+    exceptions: HoursExceptionRule[],
+    date: string
+  ): WeeklyHoursRule[] {
+    const dayOfWeek = this.getDayOfWeek(date);
+    const exception = this.findException(exceptions, date);
+
+    if (!exception) {
+      return rules.filter(rule => rule.dayOfWeek === dayOfWeek);
+    }
+    if (exception.isClosed !== false) {
+      return [];
+    }
+
+    return (exception.hours || []).map(hours => ({
+      dayOfWeek,
+      openTime: hours.openTime,
+      closeTime: hours.closeTime,
+      is24Hours: hours.is24Hours,
+    }));
+  }
+
+  /**
+   * Turns closed dates into exceptions
+   */
+  static fromHolidays(holidays: string[]): HoursExceptionRule[] {
+    return holidays.map(date => ({ startDate: date, isClosed: true }));
+  }
+
+  /**
+   * Adds days to a YYYY-MM-DD date
+   */
+  static addDays(date: string, days: number): string {
+    return new Date(this.parseDate(date) + days * DAY).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Returns the day of the week of a YYYY-MM-DD date, 0-6 (Sunday-Saturday)
+   */
+  static getDayOfWeek(date: string): number {
+    return new Date(this.parseDate(date)).getUTCDay();
+  }
+
+  private static getSpanLength(exception: HoursExceptionRule): number {
+    const start = this.parseDate(exception.startDate);
+    const end = this.parseDate(exception.endDate || exception.startDate);
+    let length = Math.round((end - start) / DAY) + 1;
+
+    if (exception.recurrence === 'YEARLY') {
+      // Compare within one year, so a wrapping range counts its own days
+      const year = '2001-';
+      const startOfYear = this.parseDate(year + exception.startDate.slice(5));
+      const endOfYear = this.parseDate(year + (exception.endDate || exception.startDate).slice(5));
+      length = Math.round((endOfYear - startOfYear) / DAY) + 1;
+      if (length <= 0) length += 365;
+    }
+
+    return length;
+  }
+
+  /**
+   * Returns the Hijri month and day of a date as MM-DD
+   */
+  private static getHijriMonthDay(date: string): string {
+    const { month, day } = TimeUtils.toHijri(this.parseDate(date), { timezone: 'Etc/UTC' });
+    return `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private static parseDate(date: string): number {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    if (!match) {
+      throw new BadRequestError('Date must be in YYYY-MM-DD format', { date });
+    }
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+}
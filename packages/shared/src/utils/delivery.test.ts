@@ -0,0 +1,107 @@
+import { UserDevice } from '../types/user';
+import {
+  DeliveryChannel,
+  DeliveryInput,
+  DeliveryPlan,
+  NotificationChannelAdapter,
+  NotificationDeliveryOrchestrator,
+} from './delivery';
+import { NotificationType } from './notifications';
+import { FakeClock } from './time';
+
+const created = new Date('2026-01-01T00:00:00Z');
+
+const device: UserDevice = {
+  id: 'device-1',
+  userId: 'user-1',
+  deviceId: 'device-1',
+  pushToken: 'token-1',
+  lastActiveAt: created,
+  createdAt: created,
+  updatedAt: created,
+};
+
+class RecordingAdapter implements NotificationChannelAdapter {
+  readonly sent: DeliveryPlan[] = [];
+
+  constructor(readonly channel: DeliveryChannel, readonly interruptive: boolean) {}
+
+  async send(plan: DeliveryPlan): Promise<void> {
+    this.sent.push(plan);
+  }
+}
+
+// Quiet hours from 22:00 to 07:00 in Riyadh (UTC+3)
+const input = (type: NotificationType, overrides: Partial<DeliveryInput> = {}): DeliveryInput => ({
+  payload: { type, title: 'Title', message: 'Message', data: { queueId: 'queue-1' } },
+  user: { id: 'user-1', email: 'sam@example.com' },
+  userPreferences: { timezone: 'Asia/Riyadh', nightModeStart: '22:00', nightModeEnd: '07:00' },
+  devices: [device],
+  ...overrides,
+});
+
+const actions = (plans: DeliveryPlan[]) =>
+  plans.reduce<Record<string, string>>((map, plan) => ({ ...map, [plan.channel]: plan.action }), {});
+
+describe('NotificationDeliveryOrchestrator', () => {
+  let clock: FakeClock;
+  let push: RecordingAdapter;
+  let inApp: RecordingAdapter;
+  let orchestrator: NotificationDeliveryOrchestrator;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-03-02T18:00:00Z'); // Monday 21:00 in Riyadh
+    push = new RecordingAdapter('push', true);
+    inApp = new RecordingAdapter('inApp', false);
+    orchestrator = new NotificationDeliveryOrchestrator([push, inApp, new RecordingAdapter('email', false)], clock);
+  });
+
+  it('defers interruptive channels to the end of quiet hours in the user timezone', () => {
+    expect(actions(orchestrator.plan(input('YOUR_TURN_SOON'))))
+      .toEqual({ push: 'SEND', email: 'SEND', sms: 'SKIP', inApp: 'SEND' });
+
+    // 20:00 UTC is outside 22:00-07:00 in UTC but 23:00 in Riyadh
+    clock.set('2026-03-02T20:00:00Z');
+    const [plan] = orchestrator.plan(input('YOUR_TURN_SOON'));
+    expect(plan).toMatchObject({ channel: 'push', action: 'DEFER', sendAt: new Date('2026-03-03T04:00:00Z') });
+  });
+
+  it('ends quiet hours that wrap past midnight on the same morning', async () => {
+    clock.set('2026-03-03T01:30:00Z'); // Tuesday 04:30 in Riyadh
+    const { plans, results } = await orchestrator.deliver(input('QUEUE_CLOSED'));
+
+    expect(plans[0]).toMatchObject({ action: 'DEFER', sendAt: new Date('2026-03-03T04:00:00Z') });
+    expect(results.map(result => result.plan.channel)).toEqual(['email', 'inApp']);
+
+    clock.set('2026-03-03T04:00:00Z');
+    await orchestrator.dispatch(plans);
+    expect(push.sent.map(plan => plan.payload.type)).toEqual(['QUEUE_CLOSED']);
+  });
+
+  it('lets only YOUR_TURN_NOW through quiet hours', () => {
+    clock.set('2026-03-02T20:00:00Z');
+
+    expect(orchestrator.plan(input('YOUR_TURN_NOW'))[0]).toMatchObject({ action: 'SEND', sendAt: clock.now() });
+    expect(orchestrator.plan(input('LEAVE_NOW'))[0].action).toBe('DEFER');
+    expect(orchestrator.plan(input('TURN_MISSED'))[0].action).toBe('DEFER');
+
+    const expiring = input('YOUR_TURN_SOON');
+    expiring.payload.ttl = 600;
+    expect(orchestrator.plan(expiring)[0]).toMatchObject({ action: 'SKIP', reason: 'EXPIRED' });
+  });
+
+  it('schedules email digests at the digest time in the user timezone', () => {
+    const email = (emailFrequency: 'daily' | 'weekly', type: NotificationType = 'QUEUE_CLOSED') =>
+      orchestrator.plan(input(type, {
+        userPreferences: { timezone: 'Asia/Riyadh', emailFrequency, weekStartsOn: 6 },
+      }))[1];
+
+    // Monday 21:00 in Riyadh: the daily digest goes out Tuesday 09:00, the weekly one on Saturday
+    expect(email('daily')).toMatchObject({ action: 'DIGEST', sendAt: new Date('2026-03-03T06:00:00Z') });
+    expect(email('weekly')).toMatchObject({ action: 'DIGEST', sendAt: new Date('2026-03-07T06:00:00Z') });
+    expect(email('daily', 'POSITION_CHANGED')).toMatchObject({ action: 'SKIP', reason: 'EXPIRED' });
+
+    clock.set('2026-03-02T05:00:00Z'); // Monday 08:00 in Riyadh
+    expect(email('daily').sendAt).toEqual(new Date('2026-03-02T06:00:00Z'));
+  });
+});
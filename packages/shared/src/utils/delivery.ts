@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import { queueNotificationPreferencesSchema } from '../schemas/queue';
+import { User, UserDevice } from '../types/user';
+import { OperatingHoursUtils } from './hours';
+import { NotificationPayload, NotificationType } from './notifications';
+import { Clock, systemClock } from './time';
+import { TimezoneUtils } from './timezone';
+
+export type DeliveryChannel = 'push' | 'email' | 'sms' | 'inApp';
+
+export type QueueNotificationPreferences = z.infer<typeof queueNotificationPreferencesSchema>;
+
+/**
+ * The `userPreferencesSchema` fields that affect delivery
+ */
+export interface DeliveryUserPreferences {
+  timezone?: string;
+  weekStartsOn?: number; // 0-6 (Sunday-Saturday)
+  emailFrequency?: 'immediately' | 'daily' | 'weekly' | 'never';
+  pushNotifications?: boolean;
+  smsNotifications?: boolean;
+  inAppNotifications?: boolean;
+  nightModeStart?: string; // HH:MM, start of quiet hours
+  nightModeEnd?: string; // HH:MM, end of quiet hours
+}
+
+/**
+ * Sends planned notifications over one channel (e.g., FCM, an email
+ * provider or the in-app inbox)
+ */
+export interface NotificationChannelAdapter {
+  channel: DeliveryChannel;
+  /** Whether the channel disturbs the user, so it is held back during quiet hours */
+  interruptive: boolean;
+  send(plan: DeliveryPlan): Promise<void>;
+}
+
+export interface DeliveryInput {
+  payload: NotificationPayload;
+  user: Pick<User, 'id' | 'email' | 'phone'>;
+  /** Preferences for the queue, venue or service the notification is about */
+  queuePreferences?: Partial<QueueNotificationPreferences>;
+  userPreferences?: DeliveryUserPreferences;
+  devices?: UserDevice[];
+}
+
+export type DeliveryAction = 'SEND' | 'DEFER' | 'DIGEST' | 'SKIP';
+
+export type DeliverySkipReason =
+  | 'NO_ADAPTER'
+  | 'CHANNEL_DISABLED'
+  | 'TYPE_DISABLED'
+  | 'NO_ADDRESS'
+  | 'NO_DEVICES'
+  | 'EXPIRED';
+
+export interface DeliveryPlan {
+  channel: DeliveryChannel;
+  action: DeliveryAction;
+  /** When to send; now, the end of quiet hours or the next digest (null when skipped) */
+  sendAt: Date | null;
+  reason?: DeliverySkipReason;
+  payload: NotificationPayload;
+  userId: string;
+  /** Email address or phone number for email and SMS */
+  address?: string;
+  /** Devices with valid push tokens, for push */
+  devices: UserDevice[];
+}
+
+export interface DeliveryResult {
+  plan: DeliveryPlan;
+  delivered: boolean;
+  error?: Error;
+}
+
+export interface DeliveryOptions {
+  /** Local time (HH:MM) at which email digests go out (default: 09:00) */
+  digestTime?: string;
+}
+
+const CHANNELS: DeliveryChannel[] = ['push', 'email', 'sms', 'inApp'];
+
+// The queue preference that turns each notification type off, if any
+const TYPE_PREFERENCES: Partial<Record<NotificationType, keyof QueueNotificationPreferences>> = {
+  POSITION_CHANGED: 'notifyOnPositionChange',
+  YOUR_TURN_SOON: 'notifyOnTurnSoon',
+  YOUR_TURN_NOW: 'notifyOnTurnNow',
+  LEAVE_NOW: 'notifyBeforeTurn',
+  TURN_MISSED: 'notifyOnMissedTurn',
+  CONFIRMATION_EXPIRED: 'notifyOnQueueCancelled',
+  QUEUE_CLOSED: 'notifyOnQueueCancelled',
+  APPOINTMENT_REMINDER: 'notifyOnReminder',
+};
+
+// Notifications that always fire, even during quiet hours
+const URGENT_TYPES: NotificationType[] = ['YOUR_TURN_NOW'];
+
+// Notifications that are only useful while the queue is live, so never go into a digest
+const LIVE_TYPES: NotificationType[] = ['POSITION_CHANGED', 'YOUR_TURN_SOON', 'YOUR_TURN_NOW', 'LEAVE_NOW'];
+
+/**
+ * Decides which channels deliver a notification, and when.
+ *
+ * A channel is used when an adapter is registered for it and both the
+ * queue and user preferences allow it. Interruptive channels are deferred
+ * to the end of the user's quiet hours (`nightModeStart`–`nightModeEnd`,
+ * in their timezone), except for `YOUR_TURN_NOW`; a deferred notification
+ * whose `ttl` runs out first is skipped. Emails follow `emailFrequency`,
+ * with live queue updates left out of digests.
+ */
+export class NotificationDeliveryOrchestrator {
+  private readonly adapters = new Map<DeliveryChannel, NotificationChannelAdapter>();
+  private readonly clock: Clock;
+  private readonly digestTime: string;
+
+  constructor(adapters: NotificationChannelAdapter[] = [], clock: Clock = systemClock, options: DeliveryOptions = {}) {
+    adapters.forEach(adapter => this.register(adapter));
+    this.clock = clock;
+    this.digestTime = options.digestTime ?? '09:00';
+  }
+
+  /**
+   * Registers a channel adapter, replacing any earlier one for the channel
+   */
+  register(adapter: NotificationChannelAdapter): void {
+    this.adapters.set(adapter.channel, adapter);
+  }
+
+  /**
+   * Plans the delivery of a notification on every channel
+   */
+  plan(input: DeliveryInput): DeliveryPlan[] {
+    const now = this.clock.now();
+    const { payload, user, queuePreferences = {}, userPreferences = {}, devices = [] } = input;
+    const quietUntil = this.getQuietHoursEnd(userPreferences, now);
+    const typePreference = TYPE_PREFERENCES[payload.type];
+    const typeEnabled = !typePreference || queuePreferences[typePreference] !== false;
+
+    return CHANNELS.map(channel => {
+      const base = { channel, payload, userId: user.id, devices: [] as UserDevice[] };
+      const skip = (reason: DeliverySkipReason): DeliveryPlan =>
+        ({ ...base, action: 'SKIP', sendAt: null, reason });
+      const adapter = this.adapters.get(channel);
+
+      if (!adapter) return skip('NO_ADAPTER');
+      if (!this.isChannelEnabled(channel, queuePreferences, userPreferences)) return skip('CHANNEL_DISABLED');
+      if (!typeEnabled) return skip('TYPE_DISABLED');
+
+      let address: string | undefined;
+      let targets: UserDevice[] = [];
+      if (channel === 'email' || channel === 'sms') {
+        address = (channel === 'email' ? user.email : user.phone) || undefined;
+        if (!address) return skip('NO_ADDRESS');
+      } else if (channel === 'push') {
+        targets = devices.filter(device => device.pushToken && !device.pushTokenInvalidatedAt);
+        if (!targets.length) return skip('NO_DEVICES');
+      }
+
+      const plan = { ...base, address, devices: targets };
+
+      if (channel === 'email' && userPreferences.emailFrequency && userPreferences.emailFrequency !== 'immediately') {
+        if (LIVE_TYPES.includes(payload.type)) return skip('EXPIRED');
+        return { ...plan, action: 'DIGEST', sendAt: this.getNextDigest(userPreferences, now) };
+      }
+
+      if (adapter.interruptive && quietUntil && !URGENT_TYPES.includes(payload.type)) {
+        if (payload.ttl !== undefined && quietUntil.getTime() > now.getTime() + payload.ttl * 1000) {
+          return skip('EXPIRED');
+        }
+        return { ...plan, action: 'DEFER', sendAt: quietUntil };
+      }
+
+      return { ...plan, action: 'SEND', sendAt: now };
+    });
+  }
+
+  /**
+   * Sends the plans that are due through their adapters. A failing adapter
+   * does not stop the others; its error is reported in the result.
+   */
+  async dispatch(plans: DeliveryPlan[]): Promise<DeliveryResult[]> {
+    const now = this.clock.now();
+    const due = plans.filter(plan => plan.action !== 'SKIP' && plan.sendAt && plan.sendAt <= now);
+
+    return Promise.all(due.map(async plan => {
+      try {
+        await this.adapters.get(plan.channel)!.send(plan);
+        return { plan, delivered: true };
+      } catch (error) {
+        return { plan, delivered: false, error: error as Error };
+      }
+    }));
+  }
+
+  /**
+   * Plans a notification and sends what is due now
+   */
+  async deliver(input: DeliveryInput): Promise<{ plans: DeliveryPlan[]; results: DeliveryResult[] }> {
+    const plans = this.plan(input);
+    return { plans, results: await this.dispatch(plans) };
+  }
+
+  private isChannelEnabled(
+    channel: DeliveryChannel,
+    queuePreferences: Partial<QueueNotificationPreferences>,
+    userPreferences: DeliveryUserPreferences
+  ): boolean {
+    switch (channel) {
+      case 'push':
+        return queuePreferences.push !== false && userPreferences.pushNotifications !== false;
+      case 'email':
+        return queuePreferences.email !== false && userPreferences.emailFrequency !== 'never';
+      case 'sms':
+        // SMS costs money, so it is off unless asked for
+        return queuePreferences.sms === true && userPreferences.smsNotifications !== false;
+      case 'inApp':
+        return queuePreferences.inApp !== false && userPreferences.inAppNotifications !== false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Returns when the current quiet hours end, or null outside quiet hours
+   */
+  private getQuietHoursEnd(preferences: DeliveryUserPreferences, now: Date): Date | null {
+    const { nightModeStart, nightModeEnd } = preferences;
+    if (!nightModeStart || !nightModeEnd || nightModeStart === nightModeEnd) return null;
+
+    const timezone = preferences.timezone || 'UTC';
+    const local = TimezoneUtils.getZonedParts(now, timezone);
+    const minutes = local.hour * 60 + local.minute;
+    const start = OperatingHoursUtils.parseTime(nightModeStart);
+    const end = OperatingHoursUtils.parseTime(nightModeEnd);
+    const isQuiet = start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+
+    if (!isQuiet) return null;
+
+    const day = minutes < end ? local.day : local.day + 1;
+    return TimezoneUtils.zonedTimeToDate(local.year, local.month, day, end, timezone);
+  }
+
+  /**
+   * Returns the next digest time: daily at `digestTime`, or weekly on `weekStartsOn`
+   */
+  private getNextDigest(preferences: DeliveryUserPreferences, now: Date): Date {
+    const timezone = preferences.timezone || 'UTC';
+    const local = TimezoneUtils.getZonedParts(now, timezone);
+    const time = OperatingHoursUtils.parseTime(this.digestTime);
+    let days = local.hour * 60 + local.minute < time ? 0 : 1;
+
+    if (preferences.emailFrequency === 'weekly') {
+      const weekStart = preferences.weekStartsOn ?? 0;
+      days = (weekStart - local.dayOfWeek + 7) % 7;
+      if (days === 0 && local.hour * 60 + local.minute >= time) days = 7;
+    }
+
+    return TimezoneUtils.zonedTimeToDate(local.year, local.month, local.day + days, time, timezone);
+  }
+}
@@ -0,0 +1,60 @@
+import { ErlangUtils } from './erlang';
+
+describe('ErlangUtils', () => {
+  describe('probabilityOfWaiting', () => {
+    it('matches textbook Erlang C values', () => {
+      expect(ErlangUtils.probabilityOfWaiting(2, 1)).toBeCloseTo(1 / 3, 6);
+      expect(ErlangUtils.probabilityOfWaiting(3, 2)).toBeCloseTo(0.4444, 4);
+      expect(ErlangUtils.probabilityOfWaiting(1, 0.5)).toBeCloseTo(0.5, 6);
+    });
+
+    it('is 1 for unstable queues and 0 without load', () => {
+      expect(ErlangUtils.probabilityOfWaiting(2, 2)).toBe(1);
+      expect(ErlangUtils.probabilityOfWaiting(0, 1)).toBe(1);
+      expect(ErlangUtils.probabilityOfWaiting(3, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateMetrics', () => {
+    it('matches the M/M/1 closed form with one server', () => {
+      // 30 customers/hour at 60 seconds each: rho = 0.5, Wq = rho / (mu - lambda) = 60s
+      const metrics = ErlangUtils.calculateMetrics({ arrivalRate: 30, averageServiceTime: 60, servers: 1 });
+
+      expect(metrics.trafficIntensity).toBeCloseTo(0.5, 6);
+      expect(metrics.isStable).toBe(true);
+      expect(metrics.expectedWaitTime).toBeCloseTo(60, 6);
+      expect(metrics.expectedQueueLength).toBeCloseTo(0.5, 6);
+    });
+
+    it('reports infinite waits when the load exceeds the servers', () => {
+      const metrics = ErlangUtils.calculateMetrics({ arrivalRate: 120, averageServiceTime: 60, servers: 1 });
+
+      expect(metrics.isStable).toBe(false);
+      expect(metrics.expectedWaitTime).toBe(Infinity);
+    });
+  });
+
+  describe('recommendServers', () => {
+    it('returns the smallest number of servers meeting the target', () => {
+      const recommendation = ErlangUtils.recommendServers(120, 60, 20, { targetServiceLevel: 0.8 });
+
+      expect(recommendation.meetsTarget).toBe(true);
+      expect(recommendation.serviceLevel).toBeGreaterThanOrEqual(0.8);
+
+      const fewer = ErlangUtils.calculateServiceLevel(
+        { arrivalRate: 120, averageServiceTime: 60, servers: recommendation.servers - 1 },
+        20
+      );
+      expect(fewer).toBeLessThan(0.8);
+    });
+
+    it('never exceeds maxServers', () => {
+      // 10 Erlangs of load cannot be served by 5 servers
+      const recommendation = ErlangUtils.recommendServers(600, 60, 20, { maxServers: 5 });
+
+      expect(recommendation.servers).toBe(5);
+      expect(recommendation.meetsTarget).toBe(false);
+      expect(recommendation.isStable).toBe(false);
+    });
+  });
+});
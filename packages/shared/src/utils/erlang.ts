@@ -0,0 +1,162 @@
+export interface MultiServerQueueInput {
+  /** Arrival rate in customers per hour */
+  arrivalRate: number;
+  /** Average service time per customer in seconds */
+  averageServiceTime: number;
+  /** Number of counters/staff serving the queue */
+  servers: number;
+}
+
+export interface MultiServerQueueMetrics {
+  /** Offered load in Erlangs (arrival rate x service time) */
+  trafficIntensity: number;
+  /** Fraction of time each server is busy (0-1) */
+  occupancy: number;
+  /** Whether the queue drains (load below the number of servers) */
+  isStable: boolean;
+  /** Erlang C probability that an arriving customer has to wait (0-1) */
+  probabilityOfWaiting: number;
+  /** Expected wait before service in seconds (Infinity when unstable) */
+  expectedWaitTime: number;
+  /** Expected number of customers waiting (Infinity when unstable) */
+  expectedQueueLength: number;
+}
+
+export interface StaffingRecommendation extends MultiServerQueueMetrics {
+  /** Recommended number of servers */
+  servers: number;
+  /** Fraction of customers served within the target wait (0-1) */
+  serviceLevel: number;
+  /** Whether the target was reached within `maxServers` */
+  meetsTarget: boolean;
+}
+
+/**
+ * Erlang C (M/M/c) model for queues served by several counters.
+ *
+ * Arrivals are Poisson and service times exponential. For example, 2 servers
+ * with 1 Erlang of load have a probability of waiting of 1/3.
+ */
+export class ErlangUtils {
+  /**
+   * Calculates the offered load in Erlangs
+   * @param arrivalRate Arrival rate in customers per hour
+   * @param averageServiceTime Average service time per customer in seconds
+   */
+  static trafficIntensity(arrivalRate: number, averageServiceTime: number): number {
+    return (Math.max(0, arrivalRate) / 3600) * Math.max(0, averageServiceTime);
+  }
+
+  /**
+   * Calculates the Erlang C probability that an arriving customer waits
+   * @param servers Number of servers
+   * @param trafficIntensity Offered load in Erlangs
+   * @returns Probability of waiting (0-1); 1 when the queue is unstable
+   */
+  static probabilityOfWaiting(servers: number, trafficIntensity: number): number {
+    if (servers <= 0 || trafficIntensity >= servers) return 1;
+    if (trafficIntensity <= 0) return 0;
+
+    // Erlang B by recursion avoids the factorials of the closed form
+    let erlangB = 1;
+    for (let k = 1; k <= servers; k++) {
+      erlangB = (trafficIntensity * erlangB) / (k + trafficIntensity * erlangB);
+    }
+
+    return (servers * erlangB) / (servers - trafficIntensity * (1 - erlangB));
+  }
+
+  /**
+   * Calculates the queue metrics for a number of servers
+   */
+  static calculateMetrics(input: MultiServerQueueInput): MultiServerQueueMetrics {
+    const { arrivalRate, averageServiceTime, servers } = input;
+    const trafficIntensity = this.trafficIntensity(arrivalRate, averageServiceTime);
+    const isStable = servers > 0 && trafficIntensity < servers;
+    const probabilityOfWaiting = this.probabilityOfWaiting(servers, trafficIntensity);
+
+    let expectedWaitTime = Infinity;
+    let expectedQueueLength = Infinity;
+    if (isStable) {
+      expectedWaitTime = (probabilityOfWaiting * averageServiceTime) / (servers - trafficIntensity);
+      expectedQueueLength = (arrivalRate / 3600) * expectedWaitTime;
+    }
+
+    return {
+      trafficIntensity,
+      occupancy: servers > 0 ? Math.min(1, trafficIntensity / servers) : 1,
+      isStable,
+      probabilityOfWaiting,
+      expectedWaitTime,
+      expectedQueueLength,
+    };
+  }
+
+  /**
+   * Calculates the fraction of customers that wait no longer than a target
+   * (e.g., 0.8 means "80% served within the target")
+   * @param input Arrival rate, service time and servers
+   * @param targetWaitTime Target wait in seconds
+   */
+  static calculateServiceLevel(input: MultiServerQueueInput, targetWaitTime: number): number {
+    const { averageServiceTime, servers } = input;
+    const { isStable, probabilityOfWaiting, trafficIntensity } = this.calculateMetrics(input);
+
+    if (!isStable) return 0;
+    if (averageServiceTime <= 0) return 1;
+
+    const decay = Math.exp(-((servers - trafficIntensity) * Math.max(0, targetWaitTime)) / averageServiceTime);
+    return Math.min(1, Math.max(0, 1 - probabilityOfWaiting * decay));
+  }
+
+  /**
+   * Recommends the smallest number of servers that meets a service level target.
+   * Never recommends more than `maxServers`; `meetsTarget` is false when even
+   * that many cannot reach the target.
+   * @param arrivalRate Arrival rate in customers per hour
+   * @param averageServiceTime Average service time per customer in seconds
+   * @param targetWaitTime Target wait in seconds
+   * @param options Target service level (default 0.8) and server limits
+   */
+  static recommendServers(
+    arrivalRate: number,
+    averageServiceTime: number,
+    targetWaitTime: number,
+    options: {
+      targetServiceLevel?: number;
+      minServers?: number;
+      maxServers?: number;
+    } = {}
+  ): StaffingRecommendation {
+    const { targetServiceLevel = 0.8, minServers = 1, maxServers = 100 } = options;
+    const trafficIntensity = this.trafficIntensity(arrivalRate, averageServiceTime);
+
+    // Fewer servers than the load can never be stable, but never go past the limit
+    let servers = Math.min(maxServers, Math.max(minServers, 1, Math.floor(trafficIntensity) + 1));
+    let recommendation = this.evaluate(arrivalRate, averageServiceTime, servers, targetWaitTime);
+
+    while (recommendation.serviceLevel < targetServiceLevel && servers < maxServers) {
+      servers++;
+      recommendation = this.evaluate(arrivalRate, averageServiceTime, servers, targetWaitTime);
+    }
+
+    return {
+      ...recommendation,
+      meetsTarget: recommendation.serviceLevel >= targetServiceLevel,
+    };
+  }
+
+  private static evaluate(
+    arrivalRate: number,
+    averageServiceTime: number,
+    servers: number,
+    targetWaitTime: number
+  ): Omit<StaffingRecommendation, 'meetsTarget'> {
+    const input = { arrivalRate, averageServiceTime, servers };
+    return {
+      ...this.calculateMetrics(input),
+      servers,
+      serviceLevel: this.calculateServiceLevel(input, targetWaitTime),
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { OperatingHoursUtils, WeeklyHoursRule } from './hours';
+
+const everyDay = (hours: Omit<WeeklyHoursRule, 'dayOfWeek'>): WeeklyHoursRule[] =>
+  [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, ...hours }));
+
+const dayShift = everyDay({ openTime: '09:00', closeTime: '17:00' });
+const nightShift = everyDay({ openTime: '22:00', closeTime: '02:00' });
+
+describe('OperatingHoursUtils', () => {
+  it('splits overnight hours across the two days they fall on', () => {
+    expect(OperatingHoursUtils.toInterval(nightShift[0])).toEqual({ start: 1320, end: 1560 });
+    expect(OperatingHoursUtils.getIntervalsForDay(nightShift, 1))
+      .toEqual([{ start: 0, end: 120 }, { start: 1320, end: 1440 }]);
+  });
+
+  it('keeps the previous night running past midnight into a closed date', () => {
+    const closed = [{ startDate: '2026-03-03' }];
+
+    expect(OperatingHoursUtils.getIntervalsForDate(nightShift, '2026-03-03', closed)).toEqual([{ start: 0, end: 120 }]);
+    expect(OperatingHoursUtils.getIntervalsForDate(nightShift, '2026-03-04', closed)).toEqual([{ start: 1320, end: 1440 }]);
+  });
+
+  it('reports the closing time of overnight hours in the venue timezone', () => {
+    // Tuesday 01:00 in Riyadh, inside Monday night's 22:00-02:00
+    expect(OperatingHoursUtils.getStatus(nightShift, 'Asia/Riyadh', new Date('2026-03-02T22:00:00Z'))).toEqual({
+      isOpen: true,
+      nextOpeningTime: '2026-03-03T19:00:00.000Z',
+      nextClosingTime: '2026-03-02T23:00:00.000Z',
+    });
+  });
+
+  it('reports a closing time for the last span before a long closure', () => {
+    const status = OperatingHoursUtils.getStatus(dayShift, 'Asia/Riyadh', new Date('2026-03-02T09:00:00Z'), {
+      exceptions: [{ startDate: '2026-03-03', endDate: '2026-04-30' }],
+    });
+
+    expect(status).toEqual({ isOpen: true, nextOpeningTime: null, nextClosingTime: '2026-03-02T14:00:00.000Z' });
+  });
+
+  it('merges 24-hour days and leaves the closing time open past the horizon', () => {
+    const allWeek = everyDay({ is24Hours: true });
+    const mondayOnly: WeeklyHoursRule[] = [{ dayOfWeek: 1, is24Hours: true }];
+    const at = new Date('2026-03-02T09:00:00Z');
+
+    expect(OperatingHoursUtils.getStatus(allWeek, 'Asia/Riyadh', at))
+      .toEqual({ isOpen: true, nextOpeningTime: null, nextClosingTime: null });
+    expect(OperatingHoursUtils.getStatus(mondayOnly, 'Asia/Riyadh', at).nextClosingTime)
+      .toBe('2026-03-02T21:00:00.000Z');
+  });
+
+  it('applies special hours and holidays', () => {
+    const at = new Date('2026-03-02T07:00:00Z'); // Monday 10:00 in Riyadh
+    const special = [{ startDate: '2026-03-02', isClosed: false, hours: [{ openTime: '12:00', closeTime: '14:00' }] }];
+
+    expect(OperatingHoursUtils.getStatus(dayShift, 'Asia/Riyadh', at, { exceptions: special })).toEqual({
+      isOpen: false,
+      nextOpeningTime: '2026-03-02T09:00:00.000Z',
+      nextClosingTime: null,
+    });
+    expect(OperatingHoursUtils.isOpenAt(dayShift, 'Asia/Riyadh', at, { holidays: ['2026-03-02'] })).toBe(false);
+  });
+
+  it('follows the venue clock across DST changes', () => {
+    // Saturday 2026-03-07 18:00 EST; New York springs forward overnight
+    const at = new Date('2026-03-07T23:00:00Z');
+
+    expect(OperatingHoursUtils.getStatus(dayShift, 'America/New_York', at).nextOpeningTime)
+      .toBe('2026-03-08T13:00:00.000Z');
+    // 02:00 does not exist that night, so the night shift closes at 03:00 EDT
+    expect(OperatingHoursUtils.getStatus(nightShift, 'America/New_York', new Date('2026-03-08T04:00:00Z')))
+      .toMatchObject({ isOpen: true, nextClosingTime: '2026-03-08T07:00:00.000Z' });
+  });
+
+  it('uses UTC for a venue without a timezone', () => {
+    const created = new Date('2026-01-01T00:00:00Z');
+    const venue = {
+      operatingHours: dayShift.map(rule => ({
+        id: `hours-${rule.dayOfWeek}`,
+        venueId: 'venue-1',
+        dayOfWeek: rule.dayOfWeek,
+        openTime: '09:00',
+        closeTime: '17:00',
+        is24Hours: false,
+        isClosed: false,
+        createdAt: created,
+        updatedAt: created,
+      })),
+    };
+
+    expect(OperatingHoursUtils.isVenueOpen(venue, new Date('2026-03-02T16:30:00Z'))).toBe(true);
+    expect(OperatingHoursUtils.isVenueOpen(venue, new Date('2026-03-02T17:30:00Z'))).toBe(false);
+  });
+});
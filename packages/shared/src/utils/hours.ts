@@ -0,0 +1,225 @@
+import { Venue } from '../types/venue';
+import { HoursExceptionRule, HoursExceptionUtils } from './calendar';
+import { TimezoneUtils } from './timezone';
+
+/**
+ * One day's entry of a weekly opening pattern; `VenueOperatingHours`,
+ * `ServiceHours` and `InstituteHours` all fit
+ */
+export interface WeeklyHoursRule {
+  dayOfWeek: number; // 0-6 (Sunday-Saturday)
+  openTime?: string | null; // HH:MM format
+  closeTime?: string | null; // HH:MM format
+  is24Hours?: boolean;
+  isClosed?: boolean;
+}
+
+/**
+ * A span of minutes from the start of a day; `end` may be 1440 (midnight)
+ */
+export interface MinuteInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Open/closed state at an instant, shaped like the matching `venueStatusSchema` fields
+ */
+export interface OpeningStatus {
+  isOpen: boolean;
+  nextOpeningTime: string | null;
+  nextClosingTime: string | null;
+}
+
+export interface OpeningStatusOptions {
+  /** Holiday and special-hours exceptions to the weekly hours */
+  exceptions?: HoursExceptionRule[];
+  /** Dates (YYYY-MM-DD, venue local) on which the venue is closed all day */
+  holidays?: string[];
+  /** Days ahead to look for the next transition (default: 14) */
+  horizonDays?: number;
+}
+
+export const MINUTES_IN_DAY = 24 * 60;
+
+export class OperatingHoursUtils {
+  /**
+   * Parses an HH:MM string into minutes since midnight
+   */
+  static parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Formats minutes since midnight as HH:MM (1440 wraps to 00:00)
+   */
+  static formatTime(minutes: number): string {
+    const wrapped = ((Math.round(minutes) % MINUTES_IN_DAY) + MINUTES_IN_DAY) % MINUTES_IN_DAY;
+    const hours = Math.floor(wrapped / 60);
+    return `${String(hours).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Converts a rule to the span it covers starting on its own day.
+   * Overnight rules (close at or before open, e.g. 22:00–02:00) end past 1440.
+   */
+  static toInterval(rule: WeeklyHoursRule): MinuteInterval | null {
+    if (rule.isClosed) return null;
+    if (rule.is24Hours) return { start: 0, end: MINUTES_IN_DAY };
+    if (!rule.openTime || !rule.closeTime) return null;
+
+    const start = this.parseTime(rule.openTime);
+    let end = this.parseTime(rule.closeTime);
+    if (end <= start) end += MINUTES_IN_DAY;
+
+    return { start, end };
+  }
+
+  /**
+   * Returns the open spans falling on a day of the week, including the
+   * part of the previous day's overnight hours that runs past midnight
+   * @param rules Weekly hours; a day may have several rules (split shifts)
+   * @param dayOfWeek 0-6 (Sunday-Saturday)
+   * @returns Merged spans within [0, 1440], sorted by start
+   */
+  static getIntervalsForDay(rules: WeeklyHoursRule[], dayOfWeek: number): MinuteInterval[] {
+    const previousDay = (dayOfWeek + 6) % 7;
+    const intervals: MinuteInterval[] = [];
+
+    rules.forEach(rule => {
+      const interval = this.toInterval(rule);
+      if (!interval) return;
+
+      if (rule.dayOfWeek === dayOfWeek) {
+        intervals.push({ start: interval.start, end: Math.min(interval.end, MINUTES_IN_DAY) });
+      }
+      if (rule.dayOfWeek === previousDay && interval.end > MINUTES_IN_DAY) {
+        intervals.push({ start: 0, end: interval.end - MINUTES_IN_DAY });
+      }
+    });
+
+    return this.mergeIntervals(intervals);
+  }
+
+  /**
+   * Returns the open spans falling on a calendar date, with exceptions
+   * applied to it and to the previous day's overnight hours
+   * @param rules Weekly hours
+   * @param date YYYY-MM-DD
+   * @param exceptions Holiday and special-hours exceptions
+   */
+  static getIntervalsForDate(
+    rules: WeeklyHoursRule[],
+    date: string,
+    exceptions: HoursExceptionRule[] = []
+  ): MinuteInterval[] {
+    const previousDate = HoursExceptionUtils.addDays(date, -1);
+
+    return this.getIntervalsForDay([
+      ...HoursExceptionUtils.resolveRulesForDate(rules, exceptions, previousDate),
+      ...HoursExceptionUtils.resolveRulesForDate(rules, exceptions, date),
+    ], HoursExceptionUtils.getDayOfWeek(date));
+  }
+
+  /**
+   * Sorts spans and merges the ones that overlap or touch
+   */
+  static mergeIntervals(intervals: MinuteInterval[]): MinuteInterval[] {
+    const sorted = intervals
+      .filter(interval => interval.end > interval.start)
+      .sort((a, b) => a.start - b.start);
+    const merged: MinuteInterval[] = [];
+
+    sorted.forEach(interval => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Evaluates weekly hours in a timezone at an instant.
+   * Spans are attributed to the day they open on, so an exception replaces
+   * that day's hours but not the previous night's hours running past midnight.
+   * Back-to-back spans (e.g., 24-hour days) merge, so `nextClosingTime` is
+   * null when there is no closing within the horizon.
+   * @param rules Weekly hours
+   * @param timezone IANA timezone of the venue
+   * @param at Instant to evaluate
+   * @param options Exceptions, holidays and look-ahead horizon
+   */
+  static getStatus(
+    rules: WeeklyHoursRule[],
+    timezone: string,
+    at: Date = new Date(),
+    options: OpeningStatusOptions = {}
+  ): OpeningStatus {
+    TimezoneUtils.validateTimezone(timezone);
+
+    const { holidays = [], horizonDays = 14 } = options;
+    const exceptions = [...(options.exceptions || []), ...HoursExceptionUtils.fromHolidays(holidays)];
+    const instant = at.getTime();
+    const today = TimezoneUtils.getZonedParts(at, timezone);
+    const spans: { start: number; end: number }[] = [];
+
+    for (let offset = -1; offset <= horizonDays; offset++) {
+      const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+      const date = day.toISOString().slice(0, 10);
+
+      HoursExceptionUtils.resolveRulesForDate(rules, exceptions, date)
+        .forEach(rule => {
+          const interval = this.toInterval(rule);
+          if (!interval) return;
+          const toInstant = (minutes: number) => TimezoneUtils.zonedTimeToDate(
+            day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), minutes, timezone
+          ).getTime();
+          spans.push({ start: toInstant(interval.start), end: toInstant(interval.end) });
+        });
+    }
+
+    const horizonEnd = TimezoneUtils.zonedTimeToDate(
+      today.year, today.month, today.day + horizonDays + 1, 0, timezone
+    ).getTime();
+    const merged = this.mergeIntervals(spans);
+    const current = merged.find(span => span.start <= instant && instant < span.end);
+    const next = merged.find(span => span.start > instant);
+    // A span reaching the end of the horizon may carry on into days not looked at
+    const closes = current && current.end < horizonEnd;
+
+    return {
+      isOpen: Boolean(current),
+      nextOpeningTime: next ? new Date(next.start).toISOString() : null,
+      nextClosingTime: closes ? new Date(current!.end).toISOString() : null,
+    };
+  }
+
+  /**
+   * Checks whether weekly hours are open at an instant, for `VenueSearchParams.isOpenNow`
+   */
+  static isOpenAt(
+    rules: WeeklyHoursRule[],
+    timezone: string,
+    at: Date = new Date(),
+    options: OpeningStatusOptions = {}
+  ): boolean {
+    return this.getStatus(rules, timezone, at, { ...options, horizonDays: 1 }).isOpen;
+  }
+
+  /**
+   * Checks whether a venue is open at an instant in its own timezone (UTC when unset);
+   * use it to apply `VenueSearchParams.isOpenNow`
+   */
+  static isVenueOpen(
+    venue: Pick<Venue, 'operatingHours' | 'timezone'>,
+    at: Date = new Date(),
+    options: OpeningStatusOptions = {}
+  ): boolean {
+    return this.isOpenAt(venue.operatingHours, venue.timezone || 'Etc/UTC', at, options);
+  }
+}
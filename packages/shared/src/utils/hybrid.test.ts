@@ -0,0 +1,89 @@
+import { HybridAppointment, HybridQueueScheduler, HybridScheduleInput, HybridWalkIn } from './hybrid';
+
+const now = new Date('2026-03-02T09:00:00Z');
+
+const walkIn = (id: string, position: number, serviceTime?: number): HybridWalkIn =>
+  ({ id, userId: `user-${id}`, position, serviceTime });
+
+const appointment = (id: string, slotStart: string, checkedInAt?: string): HybridAppointment => ({
+  id,
+  userId: `user-${id}`,
+  slotStart: `2026-03-02T${slotStart}:00Z`,
+  checkedInAt: checkedInAt ? `2026-03-02T${checkedInAt}:00Z` : null,
+});
+
+const input = (overrides: Partial<HybridScheduleInput>): HybridScheduleInput => ({
+  appointments: [],
+  walkIns: [walkIn('w1', 1), walkIn('w2', 2), walkIn('w3', 3)],
+  settings: { isBookable: true, allowWalkIns: true, allowRemoteCheckIn: true },
+  averageServiceTime: 600,
+  now,
+  ...overrides,
+});
+
+const order = (result: ReturnType<typeof HybridQueueScheduler.schedule>) =>
+  result.schedule.map(item => `${item.id}@${item.startTime.toISOString().slice(11, 16)}`);
+
+describe('HybridQueueScheduler', () => {
+  it('serves an arrived holder at their slot between walk-ins', () => {
+    const result = HybridQueueScheduler.schedule(input({ appointments: [appointment('a1', '09:15', '08:55')] }));
+
+    // Checking in early does not jump the line; the holder waits for the next free server after their slot
+    expect(order(result)).toEqual(['w1@09:00', 'w2@09:10', 'a1@09:20', 'w3@09:30']);
+    expect(result.walkInWaitTimes).toEqual({ w1: 0, w2: 600, w3: 1800 });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('sends late holders to the back of the line and drops missed ones', () => {
+    const result = HybridQueueScheduler.schedule(input({
+      appointments: [appointment('late', '08:40', '08:55'), appointment('missed', '08:30')],
+    }));
+
+    expect(order(result)).toEqual(['w1@09:00', 'w2@09:10', 'w3@09:20', 'late@09:30']);
+    expect(result.conflicts.map(conflict => [conflict.type, conflict.id]))
+      .toEqual([['LATE_ARRIVAL', 'late'], ['MISSED_APPOINTMENT', 'missed']]);
+  });
+
+  it('splits servers between due appointments and the walk-in line', () => {
+    const appointments = [appointment('a1', '09:00', '08:50'), appointment('a2', '09:10')];
+    const reserved = HybridQueueScheduler.schedule(input({ appointments, numServers: 2 }));
+
+    expect(order(reserved)).toEqual(['a1@09:00', 'w1@09:00', 'a2@09:10', 'w2@09:10', 'w3@09:20']);
+    expect(reserved.schedule.find(item => item.id === 'a2')).toMatchObject({ kind: 'APPOINTMENT', isExpected: true });
+    expect(reserved.walkInWaitTimes).toEqual({ w1: 0, w2: 600, w3: 1200 });
+
+    // Without holding capacity for expected holders, walk-ins get both servers sooner
+    const unreserved = HybridQueueScheduler.schedule(input({
+      appointments,
+      numServers: 2,
+      settings: { isBookable: true, allowWalkIns: true, allowRemoteCheckIn: true, reserveForExpected: false },
+    }));
+    expect(unreserved.walkInWaitTimes).toEqual({ w1: 0, w2: 600, w3: 600 });
+  });
+
+  it('reports appointments pushed past their grace window by a long walk-in', () => {
+    const result = HybridQueueScheduler.schedule(input({
+      walkIns: [walkIn('w1', 1, 1800)],
+      appointments: [appointment('a1', '09:05', '08:58')],
+    }));
+
+    expect(order(result)).toEqual(['w1@09:00', 'a1@09:30']);
+    expect(result.conflicts).toEqual([expect.objectContaining({
+      type: 'APPOINTMENT_DELAYED',
+      id: 'a1',
+      details: { slotStart: '2026-03-02T09:05:00.000Z', estimatedStart: '2026-03-02T09:30:00.000Z' },
+    })]);
+  });
+
+  it('ignores remote check-ins and walk-ins the settings do not allow', () => {
+    const remote = { ...appointment('a1', '08:45', '08:40'), checkInMethod: 'REMOTE' as const };
+    const result = HybridQueueScheduler.schedule(input({
+      appointments: [remote],
+      settings: { isBookable: true, allowWalkIns: false, allowRemoteCheckIn: false },
+    }));
+
+    expect(result.schedule).toEqual([]);
+    expect(result.conflicts.map(conflict => conflict.type))
+      .toEqual(['WALK_INS_DISABLED', 'WALK_INS_DISABLED', 'WALK_INS_DISABLED', 'MISSED_APPOINTMENT']);
+  });
+});
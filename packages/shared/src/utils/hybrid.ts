@@ -0,0 +1,252 @@
+import { QueueUtils } from './queue';
+import { TimeUtils } from './time';
+
+export interface HybridAppointment {
+  id: string;
+  userId: string;
+  /** Start of the booked slot */
+  slotStart: Date | string;
+  /** Service time in seconds; defaults to the average service time */
+  serviceTime?: number;
+  /** When the holder checked in, if they have */
+  checkedInAt?: Date | string | null;
+  checkInMethod?: 'ON_SITE' | 'REMOTE';
+}
+
+export interface HybridWalkIn {
+  id: string;
+  userId: string;
+  position: number;
+  /** Service time in seconds; defaults to the average service time */
+  serviceTime?: number;
+}
+
+export interface HybridSettings {
+  /** `serviceBaseSchema.isBookable`; appointments are ignored when false */
+  isBookable: boolean;
+  /** `QueueSettings.allowWalkIns` */
+  allowWalkIns: boolean;
+  /** `QueueSettings.allowRemoteCheckIn`; remote check-ins do not count as arrival when false */
+  allowRemoteCheckIn: boolean;
+  /** Minutes after the slot start a holder may arrive and keep their slot */
+  graceMinutes?: number;
+  /** Whether to hold capacity for holders who have not checked in yet and are not late */
+  reserveForExpected?: boolean;
+}
+
+export interface HybridScheduleInput {
+  appointments: HybridAppointment[];
+  walkIns: HybridWalkIn[];
+  settings: HybridSettings;
+  /** Average service time per customer in seconds */
+  averageServiceTime: number;
+  /** Number of servers (default: 1) */
+  numServers?: number;
+  now?: Date;
+}
+
+export type HybridItemKind = 'APPOINTMENT' | 'WALK_IN';
+
+export interface HybridScheduleItem {
+  kind: HybridItemKind;
+  id: string;
+  userId: string;
+  /** 1-based place in the service order */
+  order: number;
+  startTime: Date;
+  endTime: Date;
+  /** Seconds from now until service starts */
+  estimatedWaitTime: number;
+  /** Whether an appointment holder has not arrived yet */
+  isExpected: boolean;
+}
+
+export type HybridConflictType =
+  | 'LATE_ARRIVAL'
+  | 'MISSED_APPOINTMENT'
+  | 'APPOINTMENT_DELAYED'
+  | 'WALK_INS_DISABLED';
+
+export interface HybridConflict {
+  type: HybridConflictType;
+  id: string;
+  userId: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface HybridScheduleResult {
+  schedule: HybridScheduleItem[];
+  conflicts: HybridConflict[];
+  /** Estimated wait in seconds per walk-in entry id */
+  walkInWaitTimes: Record<string, number>;
+}
+
+interface PendingItem {
+  kind: HybridItemKind;
+  id: string;
+  userId: string;
+  readyAt: number;
+  serviceTime: number;
+  slotStart?: number;
+  isExpected: boolean;
+}
+
+/**
+ * Merges booked appointments with the walk-in line.
+ *
+ * A holder who checked in up to `graceMinutes` after their slot start is
+ * served at the slot time ahead of walk-ins; arriving early does not move
+ * them ahead of their slot. Holders arriving later than that join the end of
+ * the walk-in line, and holders who never arrived are dropped once the grace
+ * window has passed. Servers take whoever is ready when they free up, so a
+ * walk-in in service can delay an appointment; such delays beyond the grace
+ * window are reported as conflicts.
+ */
+export class HybridQueueScheduler {
+  static schedule(input: HybridScheduleInput): HybridScheduleResult {
+    const { settings, averageServiceTime, numServers = 1, now = new Date() } = input;
+    const graceMs = TimeUtils.toMilliseconds(settings.graceMinutes ?? 10, 'minutes');
+    const nowMs = now.getTime();
+    const conflicts: HybridConflict[] = [];
+
+    let walkIns = [...input.walkIns].sort((a, b) => a.position - b.position);
+    if (!settings.allowWalkIns) {
+      walkIns.forEach(walkIn => conflicts.push({
+        type: 'WALK_INS_DISABLED',
+        id: walkIn.id,
+        userId: walkIn.userId,
+        message: 'Walk-ins are not allowed for this queue',
+      }));
+      walkIns = [];
+    }
+
+    // Without bookings this is a plain line
+    if (!settings.isBookable || input.appointments.length === 0) {
+      const times = QueueUtils.calculateCompletionTimes(
+        walkIns.map(walkIn => ({ ...walkIn, serviceTime: walkIn.serviceTime ?? averageServiceTime })),
+        numServers
+      );
+      const schedule = times.map(({ item, startTime, endTime }, index) =>
+        this.toScheduleItem('WALK_IN', item, index, nowMs + startTime * 1000, nowMs + endTime * 1000, nowMs, false)
+      );
+      return { schedule, conflicts, walkInWaitTimes: this.walkInWaitTimes(schedule) };
+    }
+
+    const appointments: PendingItem[] = [];
+    const lineItems: PendingItem[] = walkIns.map(walkIn => ({
+      kind: 'WALK_IN',
+      id: walkIn.id,
+      userId: walkIn.userId,
+      readyAt: nowMs,
+      serviceTime: walkIn.serviceTime ?? averageServiceTime,
+      isExpected: false,
+    }));
+    const lateArrivals: (PendingItem & { arrivedAt: number })[] = [];
+
+    input.appointments.forEach(appointment => {
+      const slotStart = new Date(appointment.slotStart).getTime();
+      const serviceTime = appointment.serviceTime ?? averageServiceTime;
+      const arrived = Boolean(appointment.checkedInAt) &&
+        (appointment.checkInMethod !== 'REMOTE' || settings.allowRemoteCheckIn);
+      const arrivedAt = arrived ? new Date(appointment.checkedInAt!).getTime() : null;
+      const base = { kind: 'APPOINTMENT' as const, id: appointment.id, userId: appointment.userId, serviceTime };
+
+      if (arrivedAt !== null && arrivedAt > slotStart + graceMs) {
+        conflicts.push({
+          type: 'LATE_ARRIVAL',
+          id: appointment.id,
+          userId: appointment.userId,
+          message: 'Arrived after the grace window and joined the walk-in line',
+          details: { slotStart: new Date(slotStart).toISOString(), arrivedAt: new Date(arrivedAt).toISOString() },
+        });
+        lateArrivals.push({ ...base, readyAt: nowMs, isExpected: false, arrivedAt });
+      } else if (arrivedAt === null && nowMs > slotStart + graceMs) {
+        conflicts.push({
+          type: 'MISSED_APPOINTMENT',
+          id: appointment.id,
+          userId: appointment.userId,
+          message: 'Did not check in before the grace window ended',
+          details: { slotStart: new Date(slotStart).toISOString() },
+        });
+      } else if (arrivedAt !== null || settings.reserveForExpected !== false) {
+        appointments.push({
+          ...base,
+          readyAt: Math.max(nowMs, slotStart),
+          slotStart,
+          isExpected: arrivedAt === null,
+        });
+      }
+    });
+
+    lateArrivals.sort((a, b) => a.arrivedAt - b.arrivedAt).forEach(item => lineItems.push(item));
+    appointments.sort((a, b) => a.readyAt - b.readyAt);
+
+    const serverFreeAt: number[] = Array(Math.max(1, numServers)).fill(nowMs);
+    const schedule: HybridScheduleItem[] = [];
+
+    while (appointments.length || lineItems.length) {
+      const serverIndex = serverFreeAt.indexOf(Math.min(...serverFreeAt));
+      const freeAt = serverFreeAt[serverIndex];
+
+      // Appointments that are due go first; otherwise the line; otherwise wait for the next slot
+      let next: PendingItem;
+      if (appointments.length && (appointments[0].readyAt <= freeAt || !lineItems.length)) {
+        next = appointments.shift()!;
+      } else {
+        next = lineItems.shift()!;
+      }
+
+      const start = Math.max(freeAt, next.readyAt);
+      const end = start + next.serviceTime * 1000;
+      serverFreeAt[serverIndex] = end;
+
+      if (next.slotStart !== undefined && start > next.slotStart + graceMs) {
+        conflicts.push({
+          type: 'APPOINTMENT_DELAYED',
+          id: next.id,
+          userId: next.userId,
+          message: 'Appointment will start later than its grace window',
+          details: {
+            slotStart: new Date(next.slotStart).toISOString(),
+            estimatedStart: new Date(start).toISOString(),
+          },
+        });
+      }
+
+      schedule.push(this.toScheduleItem(next.kind, next, schedule.length, start, end, nowMs, next.isExpected));
+    }
+
+    return { schedule, conflicts, walkInWaitTimes: this.walkInWaitTimes(schedule) };
+  }
+
+  private static toScheduleItem(
+    kind: HybridItemKind,
+    item: { id: string; userId: string },
+    index: number,
+    start: number,
+    end: number,
+    now: number,
+    isExpected: boolean
+  ): HybridScheduleItem {
+    return {
+      kind,
+      id: item.id,
+      userId: item.userId,
+      order: index + 1,
+      startTime: new Date(start),
+      endTime: new Date(end),
+      estimatedWaitTime: Math.max(0, Math.round((start - now) / 1000)),
+      isExpected,
+    };
+  }
+
+  private static walkInWaitTimes(schedule: HybridScheduleItem[]): Record<string, number> {
+    return schedule
+      .filter(item => item.kind === 'WALK_IN')
+      .reduce<Record<string, number>>((times, item) => {
+        times[item.id] = item.estimatedWaitTime;
+        return times;
+      }, {});
+  }
+}
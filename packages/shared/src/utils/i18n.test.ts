@@ -0,0 +1,34 @@
+import { I18nUtils } from './i18n';
+import { NotificationUtils } from './notifications';
+import { QueueUtils } from './queue';
+import { TimeUtils } from './time';
+
+const arabicDigits = { locale: 'ar', numberingSystem: 'arab' as const };
+
+describe('I18nUtils', () => {
+  it('falls back through subtags and preferences to English', () => {
+    expect(I18nUtils.resolveLocale('ar-SA')).toBe('ar-SA');
+    expect(I18nUtils.resolveLocale(['zz', 'ar'])).toBe('ar');
+    expect(I18nUtils.resolveLocale('zz')).toBe('en');
+  });
+
+  it('builds locale tags with numbering system and calendar keywords', () => {
+    expect(I18nUtils.toLocaleTag(arabicDigits)).toBe('ar-u-nu-arab');
+    expect(I18nUtils.toLocaleTag(arabicDigits, 'islamic-umalqura')).toBe('ar-u-nu-arab-ca-islamic-umalqura');
+    expect(I18nUtils.toLocaleTag({ locale: 'ar-SA-u-ca-gregory' }, 'islamic-civil')).toBe('ar-SA-u-ca-islamic-civil');
+  });
+
+  it('takes the same locale options in TimeUtils, QueueUtils and NotificationUtils', () => {
+    const date = new Date('2026-03-02T12:00:00Z');
+    const gregorian = { year: 'numeric', month: 'numeric', day: 'numeric', timeZone: 'UTC' } as const;
+
+    expect(QueueUtils.formatPosition(3, { locale: 'ar' })).toBe('الثالث');
+    expect(QueueUtils.formatPosition(3)).toBe('3rd');
+    expect(TimeUtils.formatDuration(90 * 60 * 1000, 2, arabicDigits)).toContain('١');
+    expect(TimeUtils.formatDateTime(date, gregorian, arabicDigits)).toContain('٢٠٢٦');
+    expect(TimeUtils.formatHijriDate(date, { year: 'numeric', timeZone: 'UTC' }, { locale: 'en' })).toMatch(/^1447/);
+    expect(NotificationUtils.getStatusDisplayText('SERVED', { locale: 'ar' })).toBe('تمت الخدمة');
+    expect(NotificationUtils.createYourTurnNowNotification('Clinic', {}, { locale: 'ar-SA' }).title)
+      .toBe(I18nUtils.t('notification.yourTurnNow.title', {}, 'ar'));
+  });
+});
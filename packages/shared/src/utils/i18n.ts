@@ -0,0 +1,246 @@
+import { Language } from '../types/common';
+import { MessageKey, messages } from './messages';
+
+export type MessageParams = Record<string, string | number | null | undefined>;
+
+export interface LocaleOptions {
+  /** BCP 47 tag, or tags in order of preference, e.g. `user.language` (default: en) */
+  locale?: string | string[];
+  /** Digits to use; 'arab' for Arabic-Indic digits (default: the locale's own) */
+  numberingSystem?: 'latn' | 'arab';
+}
+
+const RTL_LANGUAGES: Language[] = ['ar'];
+
+// Unicode first-strong isolate and pop directional isolate
+const FSI = '\u2068';
+const PDI = '\u2069';
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+const relativeTimeFormats = new Map<string, Intl.RelativeTimeFormat>();
+
+/**
+ * Looks up and formats messages from the catalogs in `messages`.
+ *
+ * Patterns support a subset of ICU MessageFormat: `{name}` interpolation,
+ * `{name, plural, =0 {...} one {...} other {...}}` with `#` standing for
+ * the formatted count, `{name, selectordinal, one {#st} other {#th}}`, and
+ * `{name, select, a {...} other {...}}`. Apostrophes are literal. In
+ * right-to-left locales interpolated values are wrapped in directional
+ * isolates so that numbers and Latin names keep their own direction inside
+ * the surrounding text.
+ *
+ * Locales are BCP 47 tags: messages come from the catalog of the tag's
+ * language (English when there is none), while numbers follow the full tag,
+ * so "ar-EG-u-nu-arab" gives Arabic text with Arabic-Indic digits.
+ */
+export class I18nUtils {
+  /**
+   * Maps a stored language or locale tag (e.g., `user.language`, "ar-SA") to a
+   * supported `Language`, falling back to English
+   */
+  static resolveLanguage(locale?: string | null): Language {
+    const language = (locale || '').toLowerCase().split(/[-_]/)[0];
+    return Object.prototype.hasOwnProperty.call(messages, language) ? language as Language : 'en';
+  }
+
+  /**
+   * Picks the first supported locale, dropping subtags before moving on to
+   * the next preference (ar-EG → ar → next → en)
+   */
+  static resolveLocale(locale: string | string[] = 'en'): string {
+    const preferences = Array.isArray(locale) ? locale : [locale];
+
+    for (const preference of preferences) {
+      const subtags = preference.split(/[-_]/);
+      for (let length = subtags.length; length > 0; length--) {
+        const candidate = subtags.slice(0, length).join('-');
+        if (subtags[length - 1].length > 1 && this.isSupported(candidate)) {
+          return candidate;
+        }
+      }
+    }
+
+    return 'en';
+  }
+
+  /**
+   * Builds the locale tag for formatting options, optionally pinned to a
+   * calendar, e.g. "ar-u-nu-arab" or "ar-u-nu-arab-ca-islamic-umalqura"
+   */
+  static toLocaleTag(options: LocaleOptions = {}, calendar?: string): string {
+    let locale = this.resolveLocale(options.locale);
+    const keywords: Array<[string, string | undefined]> = [['nu', options.numberingSystem], ['ca', calendar]];
+
+    for (const [key, value] of keywords) {
+      if (!value) continue;
+      locale = locale.replace(new RegExp(`-${key}(?:-[a-z0-9]{3,8})+`, 'i'), '').replace(/-u$/i, '');
+      locale = `${locale}${locale.includes('-u-') ? '' : '-u'}-${key}-${value}`;
+    }
+
+    return locale;
+  }
+
+  /**
+   * Checks whether a locale is written right to left
+   */
+  static isRtl(locale: string): boolean {
+    return RTL_LANGUAGES.includes(this.resolveLanguage(locale));
+  }
+
+  /**
+   * Translates a message key, falling back to English when the locale lacks it
+   */
+  static t(key: MessageKey, params: MessageParams = {}, locale: string = 'en'): string {
+    const pattern = messages[this.resolveLanguage(locale)][key] ?? messages.en[key] ?? key;
+    return this.formatMessage(pattern, params, locale);
+  }
+
+  /**
+   * Formats an ICU-style message pattern
+   */
+  static formatMessage(pattern: string, params: MessageParams = {}, locale: string = 'en'): string {
+    return this.format(pattern, params, this.resolveLocale(locale));
+  }
+
+  /**
+   * Formats a number for a locale
+   */
+  static formatNumber(value: number, locale: string = 'en', options: Intl.NumberFormatOptions = {}): string {
+    const key = `${locale}|${JSON.stringify(options)}`;
+    let format = numberFormats.get(key);
+    if (!format) {
+      format = new Intl.NumberFormat(this.resolveLocale(locale), options);
+      numberFormats.set(key, format);
+    }
+    return format.format(value);
+  }
+
+  /**
+   * Formats a relative time (e.g., "3 minutes ago" for -3 minutes)
+   */
+  static formatRelativeTime(value: number, unit: Intl.RelativeTimeFormatUnit, locale: string = 'en'): string {
+    let format = relativeTimeFormats.get(locale);
+    if (!format) {
+      format = new Intl.RelativeTimeFormat(this.resolveLocale(locale), { numeric: 'always' });
+      relativeTimeFormats.set(locale, format);
+    }
+    return format.format(value, unit);
+  }
+
+  /**
+   * Returns the plural category of a count (e.g., "few" for 3 in Arabic)
+   */
+  static getPluralCategory(
+    count: number,
+    locale: string = 'en',
+    type: Intl.PluralRuleType = 'cardinal'
+  ): string {
+    const key = `${locale}|${type}`;
+    let rules = pluralRules.get(key);
+    if (!rules) {
+      rules = new Intl.PluralRules(this.resolveLocale(locale), { type });
+      pluralRules.set(key, rules);
+    }
+    return rules.select(count);
+  }
+
+  /**
+   * Wraps text in directional isolates in right-to-left locales
+   */
+  static isolate(text: string, locale: string = 'en'): string {
+    return this.isRtl(locale) ? `${FSI}${text}${PDI}` : text;
+  }
+
+  private static isSupported(locale: string): boolean {
+    try {
+      return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+      return false; // malformed tag
+    }
+  }
+
+  private static format(pattern: string, params: MessageParams, locale: string, count?: number): string {
+    let result = '';
+    let index = 0;
+
+    while (index < pattern.length) {
+      const char = pattern[index];
+
+      if (char === '{') {
+        const end = this.findClosingBrace(pattern, index);
+        result += this.formatArgument(pattern.slice(index + 1, end), params, locale);
+        index = end + 1;
+      } else if (char === '#' && count !== undefined) {
+        result += this.isolate(this.formatNumber(count, locale), locale);
+        index++;
+      } else {
+        result += char;
+        index++;
+      }
+    }
+
+    return result;
+  }
+
+  private static formatArgument(argument: string, params: MessageParams, locale: string): string {
+    const [name, type] = argument.split(',', 2).map(part => part.trim());
+    const value = params[name];
+
+    if (!type) {
+      if (value === undefined || value === null) return `{${name}}`;
+      const text = typeof value === 'number' ? this.formatNumber(value, locale) : String(value);
+      return this.isolate(text, locale);
+    }
+
+    const typeStart = argument.indexOf(',') + 1;
+    const branches = this.parseBranches(argument.slice(argument.indexOf(',', typeStart) + 1));
+
+    if (type === 'plural' || type === 'selectordinal') {
+      const count = Number(value ?? 0);
+      const branch = branches[`=${count}`] ??
+        branches[this.getPluralCategory(count, locale, type === 'plural' ? 'cardinal' : 'ordinal')] ??
+        branches.other ?? '';
+      return this.format(branch, params, locale, count);
+    }
+
+    if (type === 'select') {
+      const branch = branches[String(value)] ?? branches.other ?? '';
+      return this.format(branch, params, locale);
+    }
+
+    return `{${argument}}`;
+  }
+
+  /**
+   * Parses `selector {message} selector {message}` into a map
+   */
+  private static parseBranches(options: string): Record<string, string> {
+    const branches: Record<string, string> = {};
+    let index = 0;
+
+    while (index < options.length) {
+      const open = options.indexOf('{', index);
+      if (open === -1) break;
+
+      const selector = options.slice(index, open).trim();
+      const close = this.findClosingBrace(options, open);
+      branches[selector] = options.slice(open + 1, close);
+      index = close + 1;
+    }
+
+    return branches;
+  }
+
+  private static findClosingBrace(text: string, open: number): number {
+    let depth = 0;
+
+    for (let index = open; index < text.length; index++) {
+      if (text[index] === '{') depth++;
+      if (text[index] === '}' && --depth === 0) return index;
+    }
+
+    throw new Error(`Unbalanced braces in message: ${text}`);
+  }
+}
@@ -5,3 +5,26 @@ export * from './geo';
 export * from './time';
 export * from './queue';
 export * from './notifications';
+export * from './queueEngine';
+export * from './random';
+export * from './waitTime';
+export * from './serviceTime';
+export * from './erlang';
+export * from './ordering';
+export * from './simulation';
+export * from './sweeper';
+export * from './partySize';
+export * from './visit';
+export * from './hours';
+export * from './slots';
+export * from './hybrid';
+export * from './timezone';
+export * from './calendar';
+export * from './messages';
+export * from './i18n';
+export * from './delivery';
+export * from './push';
+export * from './throttle';
+export * from './travel';
+export * from './template';
+export * from './loginGuard';
@@ -0,0 +1,82 @@
+import { RateLimitError, UnauthorizedError } from './errors';
+import { InMemoryLoginAttemptStore, LoginAttemptGuard } from './loginGuard';
+import { FakeClock } from './time';
+
+const context = LoginAttemptGuard.fromLoginRequest(
+  { email: 'User@Example.com ', password: 'secret', deviceId: 'device-1' },
+  '10.0.0.1'
+);
+
+const wrongPassword = () => Promise.reject(new UnauthorizedError('Invalid credentials'));
+
+describe('LoginAttemptGuard', () => {
+  let clock: FakeClock;
+  let store: InMemoryLoginAttemptStore;
+  let guard: LoginAttemptGuard;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-01-01T00:00:00Z');
+    store = new InMemoryLoginAttemptStore();
+    guard = new LoginAttemptGuard(store, { config: { maxLoginAttempts: 5, lockoutTime: 900 } }, clock);
+  });
+
+  it('normalizes the identifier of a login request', () => {
+    expect(context).toEqual({ identifier: 'user@example.com', ipAddress: '10.0.0.1', deviceId: 'device-1' });
+  });
+
+  it('backs off exponentially between failures', async () => {
+    await guard.recordFailure(context);
+    await expect(guard.check(context)).resolves.toBeUndefined();
+
+    expect(await guard.recordFailure(context)).toMatchObject({ remainingAttempts: 3, retryAfter: 1, locked: false });
+    expect(await guard.recordFailure(context)).toMatchObject({ retryAfter: 2 });
+    expect(await guard.recordFailure(context)).toMatchObject({ retryAfter: 4 });
+
+    await expect(guard.check(context)).rejects.toMatchObject({ details: { retryAfter: 4, scope: 'account' } });
+    clock.advance(4, 'seconds');
+    await expect(guard.check(context)).resolves.toBeUndefined();
+  });
+
+  it('locks the account out with retryAfter once maxLoginAttempts is reached', async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(guard.attempt(context, wrongPassword)).rejects.toThrow('Invalid credentials');
+      clock.advance(60, 'seconds');
+    }
+
+    const error = await guard.attempt(context, wrongPassword).catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.details).toEqual({ retryAfter: 900, scope: 'account' });
+
+    clock.advance(899, 'seconds');
+    await expect(guard.check(context)).rejects.toThrow(RateLimitError);
+    clock.advance(1, 'seconds');
+    await expect(guard.check(context)).resolves.toBeUndefined();
+  });
+
+  it('counts every failure of a parallel burst', async () => {
+    await Promise.all(Array.from({ length: 5 }, () => guard.recordFailure(context)));
+
+    expect((await store.get('account:user@example.com'))!.failures).toHaveLength(5);
+    await expect(guard.check(context)).rejects.toMatchObject({ details: { retryAfter: 900 } });
+  });
+
+  it('locks out an IP address guessing across accounts', async () => {
+    for (let i = 0; i < 20; i++) {
+      await guard.recordFailure({ identifier: `user${i}@example.com`, ipAddress: '10.0.0.2' });
+    }
+
+    await expect(guard.check({ identifier: 'other@example.com', ipAddress: '10.0.0.2' }))
+      .rejects.toMatchObject({ details: { scope: 'ip' } });
+  });
+
+  it('resets the account and device counters after a successful login', async () => {
+    await guard.recordFailure(context);
+    await guard.recordFailure(context);
+    clock.advance(1, 'seconds');
+
+    await expect(guard.attempt(context, async () => 'signed in')).resolves.toBe('signed in');
+    expect(await store.get('account:user@example.com')).toBeNull();
+    expect(await store.get('device:device-1')).toBeNull();
+    expect((await store.get('ip:10.0.0.1'))!.failures).toHaveLength(2);
+  });
+});
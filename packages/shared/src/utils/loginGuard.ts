@@ -0,0 +1,251 @@
+import { z } from 'zod';
+import { authConfigSchema, loginRequestSchema } from '../schemas/auth';
+import { RateLimitError, UnauthorizedError } from './errors';
+import { Clock, systemClock } from './time';
+import { AuthConfig } from './validation';
+
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+
+export type LoginAttemptScope = 'account' | 'ip' | 'device';
+
+export interface LoginAttemptState {
+  /** Times of recent failed attempts, in epoch milliseconds */
+  failures: number[];
+  /** Epoch milliseconds until which attempts are refused */
+  lockedUntil: number | null;
+}
+
+/**
+ * Persistence for failed login attempts, keyed by scope and value
+ * (e.g. `account:user@example.com`). `addFailure` and `lock` must be
+ * atomic, so that a burst of parallel attempts is counted in full.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  /**
+   * Records a failure at `now`, drops failures older than the window, and
+   * returns the updated state
+   */
+  addFailure(key: string, now: number, windowMs: number): Promise<LoginAttemptState>;
+  /** Refuses attempts until a time, keeping any later lockout already set */
+  lock(key: string, until: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps login attempts in memory, for tests and single-process servers
+ */
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly states = new Map<string, LoginAttemptState>();
+
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const state = this.states.get(key);
+    return state ? { failures: state.failures.slice(), lockedUntil: state.lockedUntil } : null;
+  }
+
+  async addFailure(key: string, now: number, windowMs: number): Promise<LoginAttemptState> {
+    const state = this.states.get(key);
+    const failures = (state?.failures ?? []).filter(time => time > now - windowMs);
+    failures.push(now);
+
+    const lockedUntil = state?.lockedUntil && state.lockedUntil > now ? state.lockedUntil : null;
+    this.states.set(key, { failures, lockedUntil });
+    return { failures: failures.slice(), lockedUntil };
+  }
+
+  async lock(key: string, until: number): Promise<void> {
+    const state = this.states.get(key) ?? { failures: [], lockedUntil: null };
+    this.states.set(key, { ...state, lockedUntil: Math.max(state.lockedUntil ?? 0, until) });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key);
+  }
+}
+
+export interface LoginAttemptContext {
+  /** Email or phone the user signs in with */
+  identifier: string;
+  ipAddress?: string | null;
+  deviceId?: string | null;
+}
+
+export interface LoginGuardOptions {
+  /** `maxLoginAttempts` and `lockoutTime` (seconds) */
+  config?: Partial<AuthConfig>;
+  /** Seconds over which failures are counted (default: `lockoutTime`) */
+  windowSeconds?: number;
+  /** Failures from one IP address before it is locked out (default: 4 × `maxLoginAttempts`) */
+  maxAttemptsPerIp?: number;
+  /** Failures from one device before it is locked out (default: 2 × `maxLoginAttempts`) */
+  maxAttemptsPerDevice?: number;
+  /** Seconds to wait after the second failure on an account, doubling with each failure after (default: 1) */
+  backoffBaseSeconds?: number;
+  /** Longest wait between attempts on an account, in seconds (default: 60) */
+  maxBackoffSeconds?: number;
+}
+
+export interface LoginFailureResult {
+  /** Failures left on the account before it is locked out */
+  remainingAttempts: number;
+  /** Seconds until the next attempt is accepted, 0 if it may be made now */
+  retryAfter: number;
+  locked: boolean;
+}
+
+/**
+ * Throttles password logins per account, IP address and device.
+ *
+ * Failures are counted over a sliding window. Each scope is locked out for
+ * `lockoutTime` once it reaches its limit: `maxLoginAttempts` for an
+ * account, and higher limits for IP addresses and devices, which may be
+ * shared. Between failures on an account, attempts are also held back for
+ * an exponentially growing delay. A successful login clears the failures
+ * of the account and device; IP failures age out on their own, so that
+ * signing in to one account does not hide guessing at others from a shared
+ * network.
+ */
+export class LoginAttemptGuard {
+  private readonly maxLoginAttempts: number;
+  private readonly lockoutMs: number;
+  private readonly windowMs: number;
+  private readonly limits: Record<LoginAttemptScope, number>;
+  private readonly backoffBaseMs: number;
+  private readonly maxBackoffMs: number;
+
+  constructor(
+    private readonly store: LoginAttemptStore,
+    options: LoginGuardOptions = {},
+    private readonly clock: Clock = systemClock
+  ) {
+    const config = authConfigSchema.parse(options.config ?? {});
+    this.maxLoginAttempts = config.maxLoginAttempts;
+    this.lockoutMs = config.lockoutTime * 1000;
+    this.windowMs = (options.windowSeconds ?? config.lockoutTime) * 1000;
+    this.limits = {
+      account: config.maxLoginAttempts,
+      ip: options.maxAttemptsPerIp ?? config.maxLoginAttempts * 4,
+      device: options.maxAttemptsPerDevice ?? config.maxLoginAttempts * 2,
+    };
+    this.backoffBaseMs = (options.backoffBaseSeconds ?? 1) * 1000;
+    this.maxBackoffMs = (options.maxBackoffSeconds ?? 60) * 1000;
+  }
+
+  /**
+   * Builds the attempt context for a `loginRequestSchema` request
+   */
+  static fromLoginRequest(request: LoginRequest, ipAddress?: string | null): LoginAttemptContext {
+    return {
+      identifier: (request.email || request.phone || '').trim().toLowerCase(),
+      ipAddress: ipAddress ?? null,
+      deviceId: request.deviceId ?? null,
+    };
+  }
+
+  /**
+   * Checks that a login attempt may be made now
+   * @throws RateLimitError with `retryAfter` (seconds) and `scope` details
+   */
+  async check(context: LoginAttemptContext): Promise<void> {
+    const now = this.clock.now().getTime();
+
+    for (const [scope, key] of this.getKeys(context)) {
+      const state = await this.store.get(key);
+      if (!state) continue;
+
+      const waitUntil = Math.max(state.lockedUntil ?? 0, scope === 'account' ? this.getBackoffUntil(state, now) : 0);
+      if (waitUntil > now) {
+        throw new RateLimitError('Too many login attempts', {
+          retryAfter: Math.ceil((waitUntil - now) / 1000),
+          scope,
+        });
+      }
+    }
+  }
+
+  /**
+   * Records a failed attempt in every scope
+   */
+  async recordFailure(context: LoginAttemptContext): Promise<LoginFailureResult> {
+    const now = this.clock.now().getTime();
+    let result: LoginFailureResult = { remainingAttempts: this.maxLoginAttempts, retryAfter: 0, locked: false };
+
+    for (const [scope, key] of this.getKeys(context)) {
+      const state = await this.store.addFailure(key, now, this.windowMs);
+
+      if (state.failures.length >= this.limits[scope]) {
+        state.lockedUntil = Math.max(state.lockedUntil ?? 0, now + this.lockoutMs);
+        await this.store.lock(key, state.lockedUntil);
+      }
+
+      if (scope === 'account') {
+        const waitUntil = Math.max(state.lockedUntil ?? 0, this.getBackoffUntil(state, now));
+        result = {
+          remainingAttempts: Math.max(this.limits.account - state.failures.length, 0),
+          retryAfter: Math.max(Math.ceil((waitUntil - now) / 1000), 0),
+          locked: state.lockedUntil !== null,
+        };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Clears the account's and device's failures after a successful login
+   */
+  async recordSuccess(context: LoginAttemptContext): Promise<void> {
+    await this.store.delete(this.getKey('account', context.identifier));
+    if (context.deviceId) await this.store.delete(this.getKey('device', context.deviceId));
+  }
+
+  /**
+   * Runs a login behind the guard. An `UnauthorizedError` from the login
+   * counts as a failed attempt; any other error is passed on uncounted.
+   */
+  async attempt<T>(context: LoginAttemptContext, login: () => Promise<T>): Promise<T> {
+    await this.check(context);
+
+    let result: T;
+    try {
+      result = await login();
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        const failure = await this.recordFailure(context);
+        if (failure.locked) {
+          throw new RateLimitError('Too many login attempts', { retryAfter: failure.retryAfter, scope: 'account' });
+        }
+      }
+      throw error;
+    }
+
+    await this.recordSuccess(context);
+    return result;
+  }
+
+  /**
+   * Lifts every lockout on an account, e.g. after a password reset
+   */
+  async unlock(identifier: string): Promise<void> {
+    await this.store.delete(this.getKey('account', identifier));
+  }
+
+  private getBackoffUntil(state: LoginAttemptState, now: number): number {
+    const failures = state.failures.filter(time => time > now - this.windowMs);
+    if (failures.length < 2) return 0;
+
+    const delay = Math.min(this.backoffBaseMs * Math.pow(2, failures.length - 2), this.maxBackoffMs);
+    return failures[failures.length - 1] + delay;
+  }
+
+  private getKeys(context: LoginAttemptContext): [LoginAttemptScope, string][] {
+    const keys: [LoginAttemptScope, string][] = [['account', this.getKey('account', context.identifier)]];
+    if (context.ipAddress) keys.push(['ip', this.getKey('ip', context.ipAddress)]);
+    if (context.deviceId) keys.push(['device', this.getKey('device', context.deviceId)]);
+    return keys;
+  }
+
+  private getKey(scope: LoginAttemptScope, value: string): string {
+    return `${scope}:${scope === 'account' ? value.trim().toLowerCase() : value}`;
+  }
+}
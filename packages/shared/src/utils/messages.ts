@@ -0,0 +1,89 @@
+import { Language } from '../types/common';
+
+/**
+ * English messages; the source of the message keys every locale must provide.
+ * Patterns use ICU syntax: `{name}` interpolates a parameter and
+ * `{count, plural, one {# item} other {# items}}` picks a plural form.
+ */
+const en = {
+  'notification.positionUpdate.title': 'Queue Update',
+  'notification.positionUpdate.next': "You're next in line for {queueName}!",
+  'notification.positionUpdate.first': "You're #1 in line for {queueName}. Get ready!",
+  'notification.positionUpdate.position': "You're now #{position} in line for {queueName}",
+  'notification.positionUpdate.remaining': ' ({minutes, plural, one {# min} other {# mins}} remaining)',
+  'notification.yourTurnSoon.title': 'Heads Up!',
+  'notification.yourTurnSoon.message':
+    'Your turn for {queueName} is coming up in about {minutes, plural, one {# minute} other {# minutes}}.',
+  'notification.yourTurnNow.title': "It's Your Turn!",
+  'notification.yourTurnNow.message': 'Please proceed to {queueName}.',
+  'notification.leaveNow.title': 'Time to Leave',
+  'notification.leaveNow.message':
+    "Leave now to reach {queueName} in time. It's about {minutes, plural, one {# minute} other {# minutes}} away.",
+  'notification.turnMissed.title': 'Turn Missed',
+  'notification.turnMissed.message': 'You missed your turn for {queueName} and have been marked as a no-show.',
+  'notification.confirmationExpired.title': 'Place Released',
+  'notification.confirmationExpired.message':
+    'Your place in line for {queueName} was released because it was not confirmed in time.',
+  'notification.queuePaused.title': 'Queue Paused',
+  'notification.queuePaused.message': 'The queue for {queueName} has been paused.',
+  'notification.queuePaused.messageWithReason': 'The queue for {queueName} has been paused: {reason}',
+  'notification.queueResumed.title': 'Queue Resumed',
+  'notification.queueResumed.message': 'The queue for {queueName} has been resumed.',
+  'notification.queueClosed.title': 'Queue Closed',
+  'notification.queueClosed.message': 'The queue for {queueName} has been closed.',
+  'notification.appointmentReminder.message': 'Reminder: You have an appointment at {time}',
+  'notification.appointmentReminder.messageWithLocation': 'Reminder: You have an appointment at {time} at {location}',
+  'status.WAITING': 'Waiting',
+  'status.CALLED': 'Called',
+  'status.SERVED': 'Served',
+  'status.NOSHOW': 'No Show',
+  'status.CANCELLED': 'Cancelled',
+  'position.next': 'Next',
+  'position.ordinal': '{position, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}',
+  'time.justNow': 'just now',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+const MINUTES_AR =
+  '{minutes, plural, zero {أقل من دقيقة} one {دقيقة واحدة} two {دقيقتين} few {# دقائق} many {# دقيقة} other {# دقيقة}}';
+
+const ar: MessageCatalog = {
+  'notification.positionUpdate.title': 'تحديث الطابور',
+  'notification.positionUpdate.next': 'أنت التالي في طابور {queueName}!',
+  'notification.positionUpdate.first': 'أنت الأول في طابور {queueName}. استعد!',
+  'notification.positionUpdate.position': 'أصبح ترتيبك {position} في طابور {queueName}',
+  'notification.positionUpdate.remaining': ` (متبقٍ ${MINUTES_AR})`,
+  'notification.yourTurnSoon.title': 'استعد!',
+  'notification.yourTurnSoon.message': `سيحين دورك في {queueName} خلال ${MINUTES_AR} تقريبًا.`,
+  'notification.yourTurnNow.title': 'حان دورك!',
+  'notification.yourTurnNow.message': 'يرجى التوجه إلى {queueName}.',
+  'notification.leaveNow.title': 'حان وقت الانطلاق',
+  'notification.leaveNow.message': `انطلق الآن لتصل إلى {queueName} في الوقت المناسب. يستغرق الطريق حوالي ${MINUTES_AR}.`,
+  'notification.turnMissed.title': 'فاتك دورك',
+  'notification.turnMissed.message': 'فاتك دورك في {queueName} وتم تسجيلك كغائب.',
+  'notification.confirmationExpired.title': 'تم إلغاء مكانك',
+  'notification.confirmationExpired.message': 'تم إلغاء مكانك في طابور {queueName} لعدم تأكيده في الوقت المحدد.',
+  'notification.queuePaused.title': 'تم إيقاف الطابور مؤقتًا',
+  'notification.queuePaused.message': 'تم إيقاف طابور {queueName} مؤقتًا.',
+  'notification.queuePaused.messageWithReason': 'تم إيقاف طابور {queueName} مؤقتًا: {reason}',
+  'notification.queueResumed.title': 'تم استئناف الطابور',
+  'notification.queueResumed.message': 'تم استئناف طابور {queueName}.',
+  'notification.queueClosed.title': 'تم إغلاق الطابور',
+  'notification.queueClosed.message': 'تم إغلاق طابور {queueName}.',
+  'notification.appointmentReminder.message': 'تذكير: لديك موعد في الساعة {time}',
+  'notification.appointmentReminder.messageWithLocation': 'تذكير: لديك موعد في الساعة {time} في {location}',
+  'status.WAITING': 'في الانتظار',
+  'status.CALLED': 'تم الاستدعاء',
+  'status.SERVED': 'تمت الخدمة',
+  'status.NOSHOW': 'لم يحضر',
+  'status.CANCELLED': 'ملغى',
+  'position.next': 'التالي',
+  'position.ordinal':
+    '{position, plural, =1 {الأول} =2 {الثاني} =3 {الثالث} =4 {الرابع} =5 {الخامس} =6 {السادس} =7 {السابع} =8 {الثامن} =9 {التاسع} =10 {العاشر} other {رقم #}}',
+  'time.justNow': 'الآن',
+};
+
+export const messages: Record<Language, MessageCatalog> = { en, ar };
@@ -1,10 +1,16 @@
 import { QueueEntryStatus } from '../types/queue';
+import { I18nUtils, LocaleOptions } from './i18n';
+import { MessageKey } from './messages';
+import { TimeUtils } from './time';
 
 export type NotificationType =
   | 'QUEUE_UPDATE'
   | 'POSITION_CHANGED'
   | 'YOUR_TURN_SOON'
   | 'YOUR_TURN_NOW'
+  | 'LEAVE_NOW'
+  | 'TURN_MISSED'
+  | 'CONFIRMATION_EXPIRED'
   | 'QUEUE_PAUSED'
   | 'QUEUE_RESUMED'
   | 'QUEUE_CLOSED'
@@ -31,21 +37,23 @@ export class NotificationUtils {
     position: number,
     queueName: string,
     estimatedWaitTime?: number,
-    data: Record<string, any> = {}
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
   ): NotificationPayload {
-    const title = 'Queue Update';
+    const locale = I18nUtils.toLocaleTag(options);
+    const title = I18nUtils.t('notification.positionUpdate.title', {}, locale);
     let message = '';
     
     if (position <= 0) {
-      message = `You're next in line for ${queueName}!`;
+      message = I18nUtils.t('notification.positionUpdate.next', { queueName }, locale);
     } else if (position === 1) {
-      message = `You're #1 in line for ${queueName}. Get ready!`;
+      message = I18nUtils.t('notification.positionUpdate.first', { queueName }, locale);
     } else {
-      message = `You're now #${position} in line for ${queueName}`;
+      message = I18nUtils.t('notification.positionUpdate.position', { position, queueName }, locale);
       
       if (estimatedWaitTime) {
         const minutes = Math.ceil(estimatedWaitTime / 60);
-        message += ` (${minutes} min${minutes !== 1 ? 's' : ''} remaining)`;
+        message += I18nUtils.t('notification.positionUpdate.remaining', { minutes }, locale);
       }
     }
     
@@ -69,12 +77,14 @@ export class NotificationUtils {
   static createYourTurnSoonNotification(
     queueName: string,
     minutesUntilTurn: number,
-    data: Record<string, any> = {}
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
   ): NotificationPayload {
+    const locale = I18nUtils.toLocaleTag(options);
     return {
       type: 'YOUR_TURN_SOON',
-      title: 'Heads Up!',
-      message: `Your turn for ${queueName} is coming up in about ${minutesUntilTurn} minute${minutesUntilTurn !== 1 ? 's' : ''}.`,
+      title: I18nUtils.t('notification.yourTurnSoon.title', {}, locale),
+      message: I18nUtils.t('notification.yourTurnSoon.message', { queueName, minutes: minutesUntilTurn }, locale),
       data: {
         queueName,
         minutesUntilTurn,
@@ -89,12 +99,14 @@ export class NotificationUtils {
    */
   static createYourTurnNowNotification(
     queueName: string,
-    data: Record<string, any> = {}
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
   ): NotificationPayload {
+    const locale = I18nUtils.toLocaleTag(options);
     return {
       type: 'YOUR_TURN_NOW',
-      title: "It's Your Turn!",
-      message: `Please proceed to ${queueName}.`,
+      title: I18nUtils.t('notification.yourTurnNow.title', {}, locale),
+      message: I18nUtils.t('notification.yourTurnNow.message', { queueName }, locale),
       data: {
         queueName,
         timestamp: new Date().toISOString(),
@@ -105,6 +117,75 @@ export class NotificationUtils {
     };
   }
 
+  /**
+   * Creates a notification telling the user to set off so they arrive in time for their turn
+   */
+  static createLeaveNowNotification(
+    queueName: string,
+    travelMinutes: number,
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
+  ): NotificationPayload {
+    const locale = I18nUtils.toLocaleTag(options);
+    return {
+      type: 'LEAVE_NOW',
+      title: I18nUtils.t('notification.leaveNow.title', {}, locale),
+      message: I18nUtils.t('notification.leaveNow.message', { queueName, minutes: travelMinutes }, locale),
+      data: {
+        queueName,
+        travelMinutes,
+        timestamp: new Date().toISOString(),
+        ...data,
+      },
+      priority: 'high',
+      sound: true,
+    };
+  }
+
+  /**
+   * Creates a notification for when the user was called but did not show up
+   */
+  static createTurnMissedNotification(
+    queueName: string,
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
+  ): NotificationPayload {
+    const locale = I18nUtils.toLocaleTag(options);
+    return {
+      type: 'TURN_MISSED',
+      title: I18nUtils.t('notification.turnMissed.title', {}, locale),
+      message: I18nUtils.t('notification.turnMissed.message', { queueName }, locale),
+      data: {
+        queueName,
+        timestamp: new Date().toISOString(),
+        ...data,
+      },
+      priority: 'high',
+    };
+  }
+
+  /**
+   * Creates a notification for when a queue entry was cancelled because it was not confirmed in time
+   */
+  static createConfirmationExpiredNotification(
+    queueName: string,
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
+  ): NotificationPayload {
+    const locale = I18nUtils.toLocaleTag(options);
+    return {
+      type: 'CONFIRMATION_EXPIRED',
+      title: I18nUtils.t('notification.confirmationExpired.title', {}, locale),
+      message: I18nUtils.t('notification.confirmationExpired.message', { queueName }, locale),
+      data: {
+        queueName,
+        timestamp: new Date().toISOString(),
+        ...data,
+      },
+      priority: 'high',
+    };
+  }
+
   /**
    * Creates a notification for queue status changes
    */
@@ -112,24 +193,26 @@ export class NotificationUtils {
     status: 'PAUSED' | 'RESUMED' | 'CLOSED',
     queueName: string,
     reason?: string,
-    data: Record<string, any> = {}
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
   ): NotificationPayload {
+    const locale = I18nUtils.toLocaleTag(options);
     const type = `QUEUE_${status}` as NotificationType;
     
     let title = '';
-    let message = `The queue for ${queueName} has been ${status.toLowerCase()}`;
+    let message = '';
     
     if (status === 'PAUSED') {
-      title = 'Queue Paused';
+      title = I18nUtils.t('notification.queuePaused.title', {}, locale);
       message = reason 
-        ? `The queue for ${queueName} has been paused: ${reason}`
-        : `The queue for ${queueName} has been paused.`;
+        ? I18nUtils.t('notification.queuePaused.messageWithReason', { queueName, reason }, locale)
+        : I18nUtils.t('notification.queuePaused.message', { queueName }, locale);
     } else if (status === 'RESUMED') {
-      title = 'Queue Resumed';
-      message = `The queue for ${queueName} has been resumed.`;
+      title = I18nUtils.t('notification.queueResumed.title', {}, locale);
+      message = I18nUtils.t('notification.queueResumed.message', { queueName }, locale);
     } else if (status === 'CLOSED') {
-      title = 'Queue Closed';
-      message = `The queue for ${queueName} has been closed.`;
+      title = I18nUtils.t('notification.queueClosed.title', {}, locale);
+      message = I18nUtils.t('notification.queueClosed.message', { queueName }, locale);
     }
     
     return {
@@ -174,14 +257,14 @@ export class NotificationUtils {
     title: string,
     dateTime: Date,
     location?: string,
-    data: Record<string, any> = {}
+    data: Record<string, any> = {},
+    options: LocaleOptions = {}
   ): NotificationPayload {
-    const formattedTime = dateTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    let message = `Reminder: You have an appointment at ${formattedTime}`;
-    
-    if (location) {
-      message += ` at ${location}`;
-    }
+    const locale = I18nUtils.toLocaleTag(options);
+    const time = dateTime.toLocaleTimeString(TimeUtils.getLocale(options), { hour: '2-digit', minute: '2-digit' });
+    const message = location
+      ? I18nUtils.t('notification.appointmentReminder.messageWithLocation', { time, location }, locale)
+      : I18nUtils.t('notification.appointmentReminder.message', { time }, locale);
     
     return {
       type: 'APPOINTMENT_REMINDER',
@@ -199,18 +282,15 @@ export class NotificationUtils {
   /**
    * Converts a queue status to a human-readable string
    */
-  static getStatusDisplayText(status: QueueEntryStatus): string {
+  static getStatusDisplayText(status: QueueEntryStatus, options: LocaleOptions = {}): string {
+    const locale = I18nUtils.toLocaleTag(options);
     switch (status) {
       case 'WAITING':
-        return 'Waiting';
       case 'CALLED':
-        return 'Called';
       case 'SERVED':
-        return 'Served';
       case 'NOSHOW':
-        return 'No Show';
       case 'CANCELLED':
-        return 'Cancelled';
+        return I18nUtils.t(`status.${status}` as MessageKey, {}, locale);
       default:
         return status;
     }
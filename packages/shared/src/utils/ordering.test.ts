@@ -0,0 +1,45 @@
+import { AgingPolicy, QueueOrderingUtils, WeightedFairPolicy } from './ordering';
+
+const entry = (id: string, position: number, createdAt: string, vip = false) => ({ id, position, createdAt, vip });
+
+describe('QueueOrderingUtils', () => {
+  it('interleaves one priority entry per regularPerPriority regular entries', () => {
+    const entries = [
+      entry('r1', 1, '2026-03-02T08:00:00Z'),
+      entry('r2', 2, '2026-03-02T08:01:00Z'),
+      entry('r3', 3, '2026-03-02T08:02:00Z'),
+      entry('v1', 4, '2026-03-02T08:03:00Z', true),
+      entry('v2', 5, '2026-03-02T08:04:00Z', true),
+    ];
+
+    const ordered = new WeightedFairPolicy(2).order(entries).map(e => e.id);
+    expect(ordered).toEqual(['v1', 'r1', 'r2', 'v2', 'r3']);
+  });
+
+  it('lets a long-waiting regular entry overtake a newer VIP', () => {
+    const now = new Date('2026-03-02T09:00:00Z');
+    const entries = [
+      entry('regular', 1, '2026-03-02T08:00:00Z'),
+      entry('vip', 2, '2026-03-02T08:50:00Z', true),
+    ];
+
+    expect(new AgingPolicy(0.7).order(entries, now).map(e => e.id)).toEqual(['regular', 'vip']);
+  });
+
+  it('counts priority entries on the venue day, whatever the host timezone', () => {
+    // Riyadh (UTC+3) midnight is 21:00 UTC the day before
+    const now = new Date('2026-03-02T10:00:00Z');
+    const entries = [
+      entry('yesterday', 1, '2026-03-01T20:59:00Z', true),
+      entry('today-early', 2, '2026-03-01T21:00:00Z', true),
+      entry('today', 3, '2026-03-02T09:00:00Z', true),
+      entry('regular', 4, '2026-03-02T09:30:00Z'),
+      entry('tomorrow', 5, '2026-03-02T21:00:00Z', true),
+    ];
+
+    expect(QueueOrderingUtils.countPriorityEntriesToday(entries, 'Asia/Riyadh', now)).toBe(2);
+    expect(() => QueueOrderingUtils.assertPriorityAllowed(
+      { allowVip: true, maxPriorityPerDay: 2 }, entries, 'Asia/Riyadh', now
+    )).toThrow('Daily priority limit reached');
+  });
+});
@@ -0,0 +1,239 @@
+import { ConflictError } from './errors';
+import { QueueUtils } from './queue';
+import { TimeUtils } from './time';
+import { TimezoneUtils } from './timezone';
+
+/**
+ * The fields an ordering policy looks at; both `QueueEntry` (`vip`) and
+ * schema-shaped entries (`isPriority`) fit
+ */
+export interface OrderableEntry {
+  id: string;
+  position: number;
+  vip?: boolean;
+  isPriority?: boolean;
+  createdAt?: Date | string;
+}
+
+export interface OrderingContext {
+  /** Instant the order is computed for; used by aging */
+  now?: Date;
+  /** Average service time per customer in seconds */
+  averageServiceTime: number;
+  /** Number of servers (default: 1) */
+  numServers?: number;
+  /** Per-entry service time in seconds; defaults to `averageServiceTime` */
+  serviceTime?: (entry: OrderableEntry) => number;
+}
+
+export interface OrderedEntry<T extends OrderableEntry> {
+  entry: T;
+  /** 1-based place in the effective service order */
+  order: number;
+  /** Seconds from now until service starts */
+  estimatedWaitTime: number;
+  /** Seconds from now until service ends */
+  estimatedEndTime: number;
+}
+
+export interface QueueOrderingPolicy {
+  readonly name: string;
+  /**
+   * Returns the entries in the order they should be served
+   */
+  order<T extends OrderableEntry>(entries: T[], now: Date): T[];
+}
+
+export interface PrioritySettings {
+  allowPriority?: boolean;
+  allowVip?: boolean;
+  maxPriorityPerDay?: number;
+}
+
+const isPriorityEntry = (entry: OrderableEntry): boolean => Boolean(entry.vip || entry.isPriority);
+
+const byPosition = (a: OrderableEntry, b: OrderableEntry): number => a.position - b.position;
+
+/**
+ * Serves everyone strictly by position
+ */
+export class FifoPolicy implements QueueOrderingPolicy {
+  readonly name = 'fifo';
+
+  order<T extends OrderableEntry>(entries: T[]): T[] {
+    return [...entries].sort(byPosition);
+  }
+}
+
+/**
+ * Serves every priority entry before any regular entry
+ */
+export class StrictPriorityPolicy implements QueueOrderingPolicy {
+  readonly name = 'strict-priority';
+
+  order<T extends OrderableEntry>(entries: T[]): T[] {
+    return [...entries].sort((a, b) =>
+      Number(isPriorityEntry(b)) - Number(isPriorityEntry(a)) || byPosition(a, b)
+    );
+  }
+}
+
+/**
+ * Interleaves one priority entry per `regularPerPriority` regular entries
+ */
+export class WeightedFairPolicy implements QueueOrderingPolicy {
+  readonly name = 'weighted-fair';
+
+  constructor(private readonly regularPerPriority: number = 3) {
+    if (regularPerPriority < 0) {
+      throw new RangeError('regularPerPriority must be non-negative');
+    }
+  }
+
+  order<T extends OrderableEntry>(entries: T[]): T[] {
+    const sorted = [...entries].sort(byPosition);
+    const priority = sorted.filter(isPriorityEntry);
+    const regular = sorted.filter(entry => !isPriorityEntry(entry));
+    const ordered: T[] = [];
+
+    // Start "owed" a priority slot so a waiting VIP goes first
+    let regularSincePriority = this.regularPerPriority;
+    while (priority.length || regular.length) {
+      if (priority.length && (!regular.length || regularSincePriority >= this.regularPerPriority)) {
+        ordered.push(priority.shift()!);
+        regularSincePriority = 0;
+      } else {
+        ordered.push(regular.shift()!);
+        regularSincePriority++;
+      }
+    }
+
+    return ordered;
+  }
+}
+
+/**
+ * Orders by time waited, with priority entries aging faster.
+ *
+ * A priority entry's wait counts as `1 / vipMultiplier` times a regular one
+ * (e.g., 0.7 means VIPs wait about 70% of normal time), so a regular entry
+ * that has waited long enough overtakes newer VIPs. Regular entries that have
+ * waited longer than `maxWaitTime` seconds go ahead of everyone else.
+ */
+export class AgingPolicy implements QueueOrderingPolicy {
+  readonly name = 'aging';
+
+  constructor(
+    private readonly vipMultiplier: number = 0.7,
+    private readonly maxWaitTime?: number
+  ) {
+    if (vipMultiplier <= 0 || vipMultiplier > 1) {
+      throw new RangeError('vipMultiplier must be greater than 0 and at most 1');
+    }
+  }
+
+  order<T extends OrderableEntry>(entries: T[], now: Date): T[] {
+    const waited = (entry: OrderableEntry) =>
+      entry.createdAt ? Math.max(0, TimeUtils.dateDiff(entry.createdAt, now, 'seconds')) : 0;
+
+    const starving = (entry: OrderableEntry) =>
+      this.maxWaitTime !== undefined && !isPriorityEntry(entry) && waited(entry) >= this.maxWaitTime;
+
+    const score = (entry: OrderableEntry) =>
+      isPriorityEntry(entry) ? waited(entry) / this.vipMultiplier : waited(entry);
+
+    return [...entries].sort((a, b) =>
+      Number(starving(b)) - Number(starving(a)) || score(b) - score(a) || byPosition(a, b)
+    );
+  }
+}
+
+export class QueueOrderingUtils {
+  /**
+   * Orders entries with a policy and estimates when each will be served
+   */
+  static applyPolicy<T extends OrderableEntry>(
+    policy: QueueOrderingPolicy,
+    entries: T[],
+    context: OrderingContext
+  ): OrderedEntry<T>[] {
+    const { now = new Date(), averageServiceTime, numServers = 1, serviceTime } = context;
+    const ordered = policy.order(entries, now);
+
+    const completionTimes = QueueUtils.calculateCompletionTimes(
+      ordered.map(entry => ({
+        entry,
+        serviceTime: serviceTime ? serviceTime(entry) : averageServiceTime,
+      })),
+      numServers,
+      true
+    );
+
+    return completionTimes.map(({ item, startTime, endTime }, index) => ({
+      entry: item.entry,
+      order: index + 1,
+      estimatedWaitTime: Math.round(startTime),
+      estimatedEndTime: Math.round(endTime),
+    }));
+  }
+
+  /**
+   * Picks the policy matching a queue's settings: FIFO when VIPs are not
+   * allowed, aging with the queue's `vipMultiplier` otherwise
+   */
+  static createPolicy(settings: { allowVip?: boolean; vipMultiplier?: number }): QueueOrderingPolicy {
+    if (!settings.allowVip) return new FifoPolicy();
+    return new AgingPolicy(settings.vipMultiplier);
+  }
+
+  /**
+   * Counts priority entries created on the same day as `now` in the venue's timezone
+   */
+  static countPriorityEntriesToday(
+    entries: OrderableEntry[],
+    timezone: string,
+    now: Date = new Date()
+  ): number {
+    const { year, month, day } = TimezoneUtils.getZonedParts(now, timezone);
+    const start = TimezoneUtils.zonedTimeToDate(year, month, day, 0, timezone);
+    const end = TimezoneUtils.zonedTimeToDate(year, month, day, 24 * 60, timezone);
+
+    return entries.filter(entry =>
+      isPriorityEntry(entry) &&
+      entry.createdAt !== undefined &&
+      new Date(entry.createdAt) >= start &&
+      new Date(entry.createdAt) < end
+    ).length;
+  }
+
+  /**
+   * Throws if another priority entry may not be created today.
+   * A `maxPriorityPerDay` of 0 means no daily limit.
+   * @param settings Queue priority settings
+   * @param entries Entries to count today's priority entries from
+   * @param timezone IANA timezone of the venue, which sets where the day starts
+   * @param now Current time
+   * @throws {ConflictError} If priority is disabled or the daily limit is reached
+   */
+  static assertPriorityAllowed(
+    settings: PrioritySettings,
+    entries: OrderableEntry[],
+    timezone: string,
+    now: Date = new Date()
+  ): void {
+    if (!settings.allowPriority && !settings.allowVip) {
+      throw new ConflictError('Priority entries are not allowed for this queue');
+    }
+
+    const limit = settings.maxPriorityPerDay ?? 0;
+    if (limit <= 0) return;
+
+    const usedToday = this.countPriorityEntriesToday(entries, timezone, now);
+    if (usedToday >= limit) {
+      throw new ConflictError('Daily priority limit reached', {
+        maxPriorityPerDay: limit,
+        usedToday,
+      });
+    }
+  }
+}
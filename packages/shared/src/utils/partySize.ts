@@ -0,0 +1,179 @@
+import { ValidationError } from './errors';
+import { QueueUtils } from './queue';
+
+/**
+ * Scales a per-person base service time to a whole party
+ */
+export type PartyServiceTimeScaler = (partySize: number, baseServiceTime: number) => number;
+
+export interface PartyEntry {
+  partySize?: number;
+}
+
+export interface PartyJoinLimits {
+  /** Maximum number of active entries in the queue */
+  maxQueueSize?: number | null;
+  /** Maximum people in a single entry */
+  maxPartySize?: number | null;
+  /** Maximum people waiting at the venue (`Venue.maxQueueCapacity`) */
+  maxQueueCapacity?: number | null;
+}
+
+export interface PartyTimingOptions {
+  /** Number of servers (default: 1); ignored when `seatCapacity` is set */
+  numServers?: number;
+  /** Seats/places shared by all parties; a party needs one per person */
+  seatCapacity?: number;
+  /** Service time scaling; defaults to `PartySizeUtils.linearScaling()` */
+  scaleServiceTime?: PartyServiceTimeScaler;
+}
+
+export class PartySizeUtils {
+  /**
+   * Each person after the first adds `perAdditionalPerson` of the base time
+   * (e.g., 0.25 makes a party of 5 take twice as long as a party of 1)
+   */
+  static linearScaling(perAdditionalPerson: number = 0.25): PartyServiceTimeScaler {
+    return (partySize, baseServiceTime) =>
+      baseServiceTime * (1 + Math.max(0, partySize - 1) * perAdditionalPerson);
+  }
+
+  /**
+   * Service time does not depend on party size
+   */
+  static constantScaling(): PartyServiceTimeScaler {
+    return (_partySize, baseServiceTime) => baseServiceTime;
+  }
+
+  /**
+   * Returns an entry's party size, defaulting to 1
+   */
+  static getPartySize(entry: PartyEntry): number {
+    return Math.max(1, entry.partySize ?? 1);
+  }
+
+  /**
+   * Counts people rather than entries
+   */
+  static countPeople(entries: PartyEntry[]): number {
+    return entries.reduce((total, entry) => total + this.getPartySize(entry), 0);
+  }
+
+  /**
+   * Checks a new party against the queue and venue limits
+   * @param partySize Size of the joining party
+   * @param activeEntries Entries currently waiting or called
+   * @param limits Queue and venue limits; missing or null limits are not enforced
+   * @throws {ValidationError} With one `{ field, message }` detail per violated limit
+   */
+  static validateJoin(partySize: number, activeEntries: PartyEntry[], limits: PartyJoinLimits): void {
+    const errors: { field: string; message: string }[] = [];
+
+    if (!Number.isInteger(partySize) || partySize < 1) {
+      errors.push({ field: 'partySize', message: 'Party size must be a positive whole number' });
+    } else if (limits.maxPartySize && partySize > limits.maxPartySize) {
+      errors.push({
+        field: 'partySize',
+        message: `Party size must not exceed ${limits.maxPartySize}`,
+      });
+    }
+
+    if (limits.maxQueueSize && activeEntries.length >= limits.maxQueueSize) {
+      errors.push({
+        field: 'queue',
+        message: `Queue is full (maximum ${limits.maxQueueSize} entries)`,
+      });
+    }
+
+    const waitingPeople = this.countPeople(activeEntries);
+    if (limits.maxQueueCapacity && waitingPeople + partySize > limits.maxQueueCapacity) {
+      errors.push({
+        field: 'partySize',
+        message: `Venue capacity exceeded (${waitingPeople} of ${limits.maxQueueCapacity} places taken)`,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Cannot join queue', errors);
+    }
+  }
+
+  /**
+   * Calculates the service time for a party
+   */
+  static calculateServiceTime(
+    partySize: number,
+    averageServiceTime: number,
+    scaleServiceTime: PartyServiceTimeScaler = this.linearScaling()
+  ): number {
+    return Math.round(scaleServiceTime(Math.max(1, partySize), averageServiceTime));
+  }
+
+  /**
+   * Estimates service start and end times for parties served in the given order.
+   * With `seatCapacity`, a party waits until enough seats are free and
+   * parties are seated in order, so a large party holds back those behind it.
+   * @param entries Parties in service order
+   * @param averageServiceTime Average per-person base service time in seconds
+   * @param options Servers or seat capacity, and service time scaling
+   */
+  static calculateCompletionTimes<T extends PartyEntry>(
+    entries: T[],
+    averageServiceTime: number,
+    options: PartyTimingOptions = {}
+  ): { item: T; startTime: number; endTime: number }[] {
+    const { numServers = 1, seatCapacity, scaleServiceTime = this.linearScaling() } = options;
+    const withServiceTimes = entries.map(item => ({
+      item,
+      serviceTime: this.calculateServiceTime(this.getPartySize(item), averageServiceTime, scaleServiceTime),
+    }));
+
+    if (!seatCapacity) {
+      return QueueUtils.calculateCompletionTimes(withServiceTimes, numServers, true)
+        .map(({ item, startTime, endTime }) => ({ item: item.item, startTime, endTime }));
+    }
+
+    const seated: { seats: number; endTime: number }[] = [];
+    let previousStart = 0;
+
+    return withServiceTimes.map(({ item, serviceTime }) => {
+      const seats = Math.min(this.getPartySize(item), seatCapacity);
+      let startTime = previousStart;
+
+      // Free seats in the order parties leave until this one fits
+      const leaving = seated
+        .filter(party => party.endTime > startTime)
+        .sort((a, b) => a.endTime - b.endTime);
+      let occupied = leaving.reduce((total, party) => total + party.seats, 0);
+      for (const party of leaving) {
+        if (occupied + seats <= seatCapacity) break;
+        occupied -= party.seats;
+        startTime = party.endTime;
+      }
+
+      const endTime = startTime + serviceTime;
+      seated.push({ seats, endTime });
+      previousStart = startTime;
+
+      return { item, startTime, endTime };
+    });
+  }
+
+  /**
+   * Estimates the wait for a new party behind the given parties
+   * @returns Estimated wait time in seconds
+   */
+  static calculateWaitTime(
+    entriesAhead: PartyEntry[],
+    averageServiceTime: number,
+    partySize: number = 1,
+    options: PartyTimingOptions = {}
+  ): number {
+    const times = this.calculateCompletionTimes(
+      [...entriesAhead, { partySize }],
+      averageServiceTime,
+      options
+    );
+    return times[times.length - 1].startTime;
+  }
+}
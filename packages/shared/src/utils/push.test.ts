@@ -0,0 +1,97 @@
+import { UserDevice } from '../types/user';
+import { NotificationPayload } from './notifications';
+import { ApnsPushProvider, FakePushProvider, FcmPushProvider, PushChannelAdapter, PushTransport } from './push';
+import { FakeClock } from './time';
+
+const created = new Date('2026-01-01T00:00:00Z');
+
+const device = (id: string, pushToken: string): UserDevice => ({
+  id,
+  userId: 'user-1',
+  deviceId: id,
+  pushToken,
+  lastActiveAt: created,
+  createdAt: created,
+  updatedAt: created,
+});
+
+const payload: NotificationPayload = {
+  type: 'YOUR_TURN_NOW',
+  title: "It's your turn",
+  message: 'Please head to the counter',
+  data: { queueId: 'queue-1' },
+  priority: 'high',
+};
+
+describe('PushChannelAdapter', () => {
+  let clock: FakeClock;
+  let flagged: UserDevice[];
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-01-01T09:00:00Z');
+    flagged = [];
+  });
+
+  it('flags devices whose token the provider rejects', async () => {
+    const fake = new FakePushProvider();
+    const adapter = new PushChannelAdapter({ fcm: fake }, { onInvalidToken: d => { flagged.push(d); }, clock });
+    fake.markInvalid('token-b');
+
+    const results = await adapter.sendToDevices([device('a', 'token-a'), device('b', 'token-b')], payload);
+
+    expect(results.map(result => [result.deviceId, result.success, result.invalidToken]))
+      .toEqual([['a', true, false], ['b', false, true]]);
+    expect(fake.sent.map(sent => sent.device.id)).toEqual(['a']);
+    expect(flagged).toEqual([expect.objectContaining({ id: 'b', pushTokenInvalidatedAt: clock.now() })]);
+  });
+
+  it('fails a plan only when no device received it', async () => {
+    const fake = new FakePushProvider();
+    const adapter = new PushChannelAdapter({ fcm: fake });
+    fake.markFailing('token-a');
+
+    const plan = { channel: 'push' as const, action: 'SEND' as const, sendAt: clock.now(), payload, userId: 'user-1' };
+    await expect(adapter.send({ ...plan, devices: [device('a', 'token-a')] })).rejects.toThrow('Unavailable');
+    await expect(adapter.send({ ...plan, devices: [device('a', 'token-a'), device('b', 'token-b')] }))
+      .resolves.toBeUndefined();
+  });
+
+  it('keeps per-device results when an FCM request fails in the transport', async () => {
+    const transport: PushTransport = async request => {
+      const { token } = (request.body as { message: { token: string } }).message;
+      if (token === 'token-a') throw new Error('socket hang up');
+      if (token === 'token-b') {
+        return { status: 404, body: { error: { status: 'NOT_FOUND', details: [{ errorCode: 'UNREGISTERED' }] } } };
+      }
+      return { status: 200, body: { name: 'projects/p/messages/1' } };
+    };
+    const adapter = new PushChannelAdapter(
+      { fcm: new FcmPushProvider({ projectId: 'p', transport, clock }) },
+      { onInvalidToken: d => { flagged.push(d); }, clock }
+    );
+
+    const results = await adapter.sendToDevices(
+      [device('a', 'token-a'), device('b', 'token-b'), device('c', 'token-c')],
+      payload
+    );
+
+    expect(results.map(result => [result.deviceId, result.success, result.error])).toEqual([
+      ['a', false, 'socket hang up'],
+      ['b', false, 'NOT_FOUND'],
+      ['c', true, undefined],
+    ]);
+    expect(flagged.map(d => d.id)).toEqual(['b']);
+  });
+
+  it('reads the APNs rejection reason from the response body', async () => {
+    const token = 'a'.repeat(64);
+    const provider = new ApnsPushProvider({
+      topic: 'app.superque',
+      transport: async () => ({ status: 400, body: { reason: 'BadDeviceToken' } }),
+      clock,
+    });
+
+    expect(await provider.send([device('a', token)], payload))
+      .toEqual([{ deviceId: 'a', token, success: false, invalidToken: true, error: 'BadDeviceToken' }]);
+  });
+});
@@ -0,0 +1,501 @@
+import { UserDevice } from '../types/user';
+import { DeliveryPlan, NotificationChannelAdapter } from './delivery';
+import { NotificationPayload } from './notifications';
+import { Clock, systemClock } from './time';
+
+export type PushProviderName = 'fcm' | 'apns' | 'expo';
+
+export interface PushSendResult {
+  deviceId: string;
+  token: string;
+  success: boolean;
+  /** Whether the provider rejected the token for good; the device should stop receiving pushes */
+  invalidToken: boolean;
+  error?: string;
+}
+
+/**
+ * Sends a notification to devices through one push service
+ */
+export interface PushProvider {
+  name: PushProviderName;
+  send(devices: UserDevice[], payload: NotificationPayload): Promise<PushSendResult[]>;
+}
+
+export interface PushHttpRequest {
+  url: string;
+  method: 'POST';
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface PushHttpResponse {
+  status: number;
+  /** Parsed JSON response body */
+  body?: unknown;
+}
+
+/**
+ * Performs a provider HTTP request. Authentication (OAuth for FCM, the
+ * provider token or certificate for APNs) is up to the transport.
+ */
+export type PushTransport = (request: PushHttpRequest) => Promise<PushHttpResponse>;
+
+export interface PushMappingOptions {
+  /** Time the message is sent, for absolute expirations */
+  now?: Date;
+}
+
+export interface FcmMessage {
+  token: string;
+  notification: { title: string; body: string };
+  data: Record<string, string>;
+  android: {
+    priority: 'HIGH' | 'NORMAL';
+    ttl?: string;
+    collapse_key?: string;
+    notification: {
+      channel_id?: string;
+      sound?: string;
+      notification_priority: 'PRIORITY_MAX' | 'PRIORITY_HIGH' | 'PRIORITY_DEFAULT';
+      notification_count?: number;
+    };
+  };
+  apns: {
+    headers: Record<string, string>;
+    payload: { aps: ApnsMessage['body']['aps'] };
+  };
+}
+
+export interface ApnsMessage {
+  headers: Record<string, string>;
+  body: {
+    aps: {
+      alert: { title: string; body: string };
+      sound?: string;
+      badge?: number;
+      'interruption-level'?: 'active' | 'time-sensitive';
+    };
+    [key: string]: unknown;
+  };
+}
+
+export interface ExpoMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  priority: 'default' | 'normal' | 'high';
+  sound?: 'default' | null;
+  badge?: number;
+  ttl?: number;
+  channelId?: string;
+}
+
+/**
+ * Maps `NotificationPayload` onto each push service's message format
+ */
+export class PushPayloadMapper {
+  /**
+   * Returns the collapse key for a payload: one per queue, so a newer
+   * update replaces an older one still waiting on the device
+   */
+  static getCollapseKey(payload: NotificationPayload): string | undefined {
+    const queueId = payload.data?.queueId;
+    return queueId ? `queue-${queueId}` : undefined;
+  }
+
+  static toFcm(payload: NotificationPayload, token: string, options: PushMappingOptions = {}): FcmMessage {
+    const urgent = payload.priority === 'high' || payload.priority === 'max';
+    const collapseKey = this.getCollapseKey(payload);
+    const apns = this.toApns(payload, options);
+    const sound = this.getSound(payload);
+
+    return {
+      token,
+      notification: { title: payload.title, body: payload.message },
+      // FCM data values must be strings
+      data: Object.keys(payload.data || {}).reduce<Record<string, string>>((data, key) => {
+        const value = payload.data![key];
+        if (value !== undefined && value !== null) {
+          data[key] = typeof value === 'string' ? value : JSON.stringify(value);
+        }
+        return data;
+      }, { type: payload.type }),
+      android: {
+        priority: urgent ? 'HIGH' : 'NORMAL',
+        ...(payload.ttl !== undefined && { ttl: `${payload.ttl}s` }),
+        ...(collapseKey && { collapse_key: collapseKey }),
+        notification: {
+          ...(payload.channelId && { channel_id: payload.channelId }),
+          ...(sound && { sound }),
+          notification_priority: payload.priority === 'max'
+            ? 'PRIORITY_MAX'
+            : urgent ? 'PRIORITY_HIGH' : 'PRIORITY_DEFAULT',
+          ...(payload.badge !== undefined && { notification_count: payload.badge }),
+        },
+      },
+      apns: { headers: apns.headers, payload: { aps: apns.body.aps } },
+    };
+  }
+
+  static toApns(payload: NotificationPayload, options: PushMappingOptions = {}): ApnsMessage {
+    const now = options.now || new Date();
+    const collapseKey = this.getCollapseKey(payload);
+    const sound = this.getSound(payload);
+
+    return {
+      headers: {
+        'apns-push-type': 'alert',
+        'apns-priority': payload.priority === 'high' || payload.priority === 'max' ? '10' : '5',
+        // 0 tells APNs to try once and not store the notification
+        'apns-expiration': payload.ttl !== undefined
+          ? String(Math.floor(now.getTime() / 1000) + payload.ttl)
+          : '0',
+        ...(collapseKey && { 'apns-collapse-id': collapseKey }),
+      },
+      body: {
+        aps: {
+          alert: { title: payload.title, body: payload.message },
+          ...(sound && { sound }),
+          ...(payload.badge !== undefined && { badge: payload.badge }),
+          ...(payload.priority === 'max' && { 'interruption-level': 'time-sensitive' as const }),
+        },
+        type: payload.type,
+        ...payload.data,
+      },
+    };
+  }
+
+  static toExpo(payload: NotificationPayload, token: string): ExpoMessage {
+    return {
+      to: token,
+      title: payload.title,
+      body: payload.message,
+      data: { type: payload.type, ...payload.data },
+      priority: payload.priority === 'high' || payload.priority === 'max' ? 'high' : 'default',
+      ...(this.getSound(payload) && { sound: 'default' as const }),
+      ...(payload.badge !== undefined && { badge: payload.badge }),
+      ...(payload.ttl !== undefined && { ttl: payload.ttl }),
+      ...(payload.channelId && { channelId: payload.channelId }),
+    };
+  }
+
+  private static getSound(payload: NotificationPayload): string | undefined {
+    if (typeof payload.sound === 'string') return payload.sound;
+    return payload.sound ? 'default' : undefined;
+  }
+}
+
+export class PushUtils {
+  /**
+   * Guesses the push service of a token: Expo tokens are wrapped in
+   * `ExponentPushToken[...]`, APNs tokens are 64 hex digits, anything else
+   * is taken for an FCM registration token
+   */
+  static detectProvider(token: string): PushProviderName {
+    if (/^Expo(nent)?PushToken\[.+\]$/.test(token)) return 'expo';
+    if (/^[0-9a-f]{64}$/i.test(token)) return 'apns';
+    return 'fcm';
+  }
+
+  /**
+   * Marks a device's push token as rejected by the provider
+   */
+  static flagInvalidToken(device: UserDevice, at: Date = new Date()): UserDevice {
+    return { ...device, pushTokenInvalidatedAt: at, updatedAt: at };
+  }
+
+  static toResult(device: UserDevice, success: boolean, invalidToken = false, error?: string): PushSendResult {
+    return {
+      deviceId: device.id,
+      token: device.pushToken || '',
+      success,
+      invalidToken,
+      ...(error && { error }),
+    };
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const toErrorMessage = (reason: unknown): string =>
+  reason instanceof Error ? reason.message : String(reason);
+
+export interface FcmProviderOptions {
+  projectId: string;
+  transport: PushTransport;
+  clock?: Clock;
+}
+
+/**
+ * Sends through the FCM HTTP v1 API, one request per token. A request that
+ * fails in the transport counts as a failure for its device only.
+ */
+export class FcmPushProvider implements PushProvider {
+  readonly name = 'fcm' as const;
+
+  constructor(private readonly options: FcmProviderOptions) {}
+
+  async send(devices: UserDevice[], payload: NotificationPayload): Promise<PushSendResult[]> {
+    const { projectId, transport, clock = systemClock } = this.options;
+
+    const responses = await Promise.allSettled(devices.map(device => transport({
+      url: `https://fcm.googleapis.com/v1/projects/${projectId}/messages:send`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: { message: PushPayloadMapper.toFcm(payload, device.pushToken!, { now: clock.now() }) },
+    })));
+
+    return responses.map((outcome, index) => {
+      const device = devices[index];
+      if (outcome.status === 'rejected') {
+        return PushUtils.toResult(device, false, false, toErrorMessage(outcome.reason));
+      }
+
+      const response = outcome.value;
+      if (response.status >= 200 && response.status < 300) {
+        return PushUtils.toResult(device, true);
+      }
+
+      const error = isRecord(response.body) && isRecord(response.body.error) ? response.body.error : {};
+      const details = Array.isArray(error.details) ? error.details : [];
+      const invalid = response.status === 404 ||
+        details.some(detail => isRecord(detail) && detail.errorCode === 'UNREGISTERED');
+      return PushUtils.toResult(
+        device,
+        false,
+        invalid,
+        typeof error.status === 'string' ? error.status : `HTTP ${response.status}`
+      );
+    });
+  }
+}
+
+export interface ApnsProviderOptions {
+  /** App bundle ID, sent as `apns-topic` */
+  topic: string;
+  /** Whether to use the sandbox environment (default: false) */
+  sandbox?: boolean;
+  transport: PushTransport;
+  clock?: Clock;
+}
+
+const APNS_INVALID_REASONS = ['BadDeviceToken', 'Unregistered', 'DeviceTokenNotForTopic'];
+
+/**
+ * Sends through the APNs provider API, one request per token. A request that
+ * fails in the transport counts as a failure for its device only.
+ */
+export class ApnsPushProvider implements PushProvider {
+  readonly name = 'apns' as const;
+
+  constructor(private readonly options: ApnsProviderOptions) {}
+
+  async send(devices: UserDevice[], payload: NotificationPayload): Promise<PushSendResult[]> {
+    const { topic, sandbox, transport, clock = systemClock } = this.options;
+    const host = sandbox ? 'api.sandbox.push.apple.com' : 'api.push.apple.com';
+    const message = PushPayloadMapper.toApns(payload, { now: clock.now() });
+
+    const responses = await Promise.allSettled(devices.map(device => transport({
+      url: `https://${host}/3/device/${device.pushToken}`,
+      method: 'POST',
+      headers: { ...message.headers, 'apns-topic': topic },
+      body: message.body,
+    })));
+
+    return responses.map((outcome, index) => {
+      const device = devices[index];
+      if (outcome.status === 'rejected') {
+        return PushUtils.toResult(device, false, false, toErrorMessage(outcome.reason));
+      }
+
+      const response = outcome.value;
+      if (response.status === 200) {
+        return PushUtils.toResult(device, true);
+      }
+
+      const reason = isRecord(response.body) && typeof response.body.reason === 'string'
+        ? response.body.reason
+        : undefined;
+      const invalid = response.status === 410 || APNS_INVALID_REASONS.includes(reason || '');
+      return PushUtils.toResult(device, false, invalid, reason || `HTTP ${response.status}`);
+    });
+  }
+}
+
+export interface ExpoProviderOptions {
+  transport: PushTransport;
+  /** Expo access token, when push security is enabled */
+  accessToken?: string;
+}
+
+const EXPO_BATCH_SIZE = 100;
+
+/**
+ * Sends through the Expo push service, in batches of up to 100 messages.
+ * A batch that fails in the transport counts as a failure for its devices only.
+ */
+export class ExpoPushProvider implements PushProvider {
+  readonly name = 'expo' as const;
+
+  constructor(private readonly options: ExpoProviderOptions) {}
+
+  async send(devices: UserDevice[], payload: NotificationPayload): Promise<PushSendResult[]> {
+    const { transport, accessToken } = this.options;
+    const results: PushSendResult[] = [];
+
+    for (let start = 0; start < devices.length; start += EXPO_BATCH_SIZE) {
+      const batch = devices.slice(start, start + EXPO_BATCH_SIZE);
+      let response: PushHttpResponse;
+      try {
+        response = await transport({
+          url: 'https://exp.host/--/api/v2/push/send',
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+          },
+          body: batch.map(device => PushPayloadMapper.toExpo(payload, device.pushToken!)),
+        });
+      } catch (error) {
+        batch.forEach(device => results.push(PushUtils.toResult(device, false, false, toErrorMessage(error))));
+        continue;
+      }
+
+      const tickets: unknown[] = isRecord(response.body) && Array.isArray(response.body.data)
+        ? response.body.data
+        : [];
+
+      batch.forEach((device, index) => {
+        const ticket = tickets[index];
+        if (response.status !== 200 || !isRecord(ticket)) {
+          results.push(PushUtils.toResult(device, false, false, `HTTP ${response.status}`));
+        } else if (ticket.status === 'ok') {
+          results.push(PushUtils.toResult(device, true));
+        } else {
+          const error = isRecord(ticket.details) && typeof ticket.details.error === 'string'
+            ? ticket.details.error
+            : undefined;
+          const message = typeof ticket.message === 'string' ? ticket.message : undefined;
+          results.push(PushUtils.toResult(device, false, error === 'DeviceNotRegistered', error || message));
+        }
+      });
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Push provider that keeps messages in memory, for tests and local development
+ */
+export class FakePushProvider implements PushProvider {
+  readonly sent: { device: UserDevice; payload: NotificationPayload }[] = [];
+  private readonly invalidTokens = new Set<string>();
+  private readonly failingTokens = new Set<string>();
+
+  constructor(readonly name: PushProviderName = 'fcm') {}
+
+  /**
+   * Makes the provider reject a token as unregistered
+   */
+  markInvalid(token: string): void {
+    this.invalidTokens.add(token);
+  }
+
+  /**
+   * Makes sends to a token fail with a temporary error
+   */
+  markFailing(token: string): void {
+    this.failingTokens.add(token);
+  }
+
+  async send(devices: UserDevice[], payload: NotificationPayload): Promise<PushSendResult[]> {
+    return devices.map(device => {
+      const token = device.pushToken || '';
+      if (this.invalidTokens.has(token)) return PushUtils.toResult(device, false, true, 'Unregistered');
+      if (this.failingTokens.has(token)) return PushUtils.toResult(device, false, false, 'Unavailable');
+
+      this.sent.push({ device, payload });
+      return PushUtils.toResult(device, true);
+    });
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+    this.invalidTokens.clear();
+    this.failingTokens.clear();
+  }
+}
+
+export interface PushChannelOptions {
+  /** Called with the flagged device when a provider rejects its token, so it can be saved */
+  onInvalidToken?: (device: UserDevice) => void | Promise<void>;
+  /** Picks the provider of a device (default: `PushUtils.detectProvider` on its token) */
+  resolveProvider?: (device: UserDevice) => PushProviderName;
+  clock?: Clock;
+}
+
+/**
+ * Push channel for `NotificationDeliveryOrchestrator`, routing each device
+ * to its provider
+ */
+export class PushChannelAdapter implements NotificationChannelAdapter {
+  readonly channel = 'push' as const;
+  readonly interruptive = true;
+
+  constructor(
+    private readonly providers: Partial<Record<PushProviderName, PushProvider>>,
+    private readonly options: PushChannelOptions = {}
+  ) {}
+
+  /**
+   * Delivers a plan, failing only when no device received it
+   */
+  async send(plan: DeliveryPlan): Promise<void> {
+    const results = await this.sendToDevices(plan.devices, plan.payload);
+    const failures = results.filter(result => !result.success);
+
+    if (results.length && failures.length === results.length) {
+      throw new Error(`Push delivery failed: ${failures.map(result => result.error).join(', ')}`);
+    }
+  }
+
+  /**
+   * Sends a payload to devices and flags the ones with rejected tokens
+   */
+  async sendToDevices(devices: UserDevice[], payload: NotificationPayload): Promise<PushSendResult[]> {
+    const { resolveProvider = (device: UserDevice) => PushUtils.detectProvider(device.pushToken || ''), clock = systemClock } =
+      this.options;
+    const groups = new Map<PushProviderName, UserDevice[]>();
+    const results: PushSendResult[] = [];
+
+    devices
+      .filter(device => device.pushToken && !device.pushTokenInvalidatedAt)
+      .forEach(device => {
+        const name = resolveProvider(device);
+        groups.set(name, [...(groups.get(name) || []), device]);
+      });
+
+    for (const [name, group] of Array.from(groups.entries())) {
+      const provider = this.providers[name];
+      if (!provider) {
+        group.forEach(device => results.push(PushUtils.toResult(device, false, false, `No ${name} provider`)));
+        continue;
+      }
+
+      const sent = await provider.send(group, payload);
+      for (const result of sent) {
+        results.push(result);
+        const device = group.find(candidate => candidate.id === result.deviceId);
+        if (result.invalidToken && device && this.options.onInvalidToken) {
+          await this.options.onInvalidToken(PushUtils.flagInvalidToken(device, clock.now()));
+        }
+      }
+    }
+
+    return results;
+  }
+}
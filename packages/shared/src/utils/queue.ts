@@ -1,5 +1,9 @@
 import { QueueEntryStatus } from '../types/queue';
+import { I18nUtils, LocaleOptions } from './i18n';
 import { TimeUtils } from './time';
+import { WaitTimeEstimate, WaitTimeEstimator } from './waitTime';
+
+const waitTimeEstimator = new WaitTimeEstimator();
 
 export class QueueUtils {
   /**
@@ -14,16 +18,22 @@ export class QueueUtils {
     averageServiceTime: number,
     varianceServiceTime: number = 0.2
   ): number {
-    // Basic calculation: position * average service time
-    let waitTime = position * averageServiceTime;
-    
-    // Add some variance based on service time
-    if (varianceServiceTime > 0) {
-      const varianceFactor = 1 + (Math.random() * 2 - 1) * varianceServiceTime;
-      waitTime *= varianceFactor;
-    }
-    
-    return Math.max(0, Math.round(waitTime));
+    return this.estimateWaitTime(position, averageServiceTime, varianceServiceTime).estimate;
+  }
+
+  /**
+   * Estimates the wait time for a position along with p10/p50/p90 bounds
+   * @param position Current position in the queue
+   * @param averageServiceTime Average service time per customer in seconds
+   * @param varianceServiceTime Variance in service time (0-1, where 0 means no variance)
+   * @returns Point estimate and percentile bounds in seconds
+   */
+  static estimateWaitTime(
+    position: number,
+    averageServiceTime: number,
+    varianceServiceTime: number = 0.2
+  ): WaitTimeEstimate {
+    return waitTimeEstimator.estimate(position, averageServiceTime, varianceServiceTime);
   }
 
   /**
@@ -55,11 +65,12 @@ export class QueueUtils {
     } = options;
 
     // Calculate estimated wait time
-    const estimatedWaitTime = this.calculateWaitTime(
+    const waitTimeRange = this.estimateWaitTime(
       position,
       averageServiceTime,
       varianceServiceTime
     );
+    const estimatedWaitTime = waitTimeRange.estimate;
 
     // Calculate buffer time (dynamic based on position and service time)
     const calculatedBuffer = Math.min(
@@ -82,6 +93,7 @@ export class QueueUtils {
     return {
       position,
       estimatedWaitTime,
+      waitTimeRange,
       travelTime,
       bufferTime: calculatedBuffer,
       recommendedLeaveIn,
@@ -105,28 +117,13 @@ export class QueueUtils {
   }
 
   /**
-   * Formats a queue position with the appropriate suffix
+   * Formats a queue position as an ordinal (e.g., "3rd", or "الثالث" in Arabic)
    */
-  static formatPosition(position: number): string {
-    if (position <= 0) return 'Next';
-    
-    const lastDigit = position % 10;
-    const lastTwoDigits = position % 100;
+  static formatPosition(position: number, options: LocaleOptions = {}): string {
+    const locale = I18nUtils.toLocaleTag(options);
+    if (position <= 0) return I18nUtils.t('position.next', {}, locale);
     
-    if (lastTwoDigits >= 11 && lastTwoDigits <= 13) {
-      return `${position}th`;
-    }
-    
-    switch (lastDigit) {
-      case 1:
-        return `${position}st`;
-      case 2:
-        return `${position}nd`;
-      case 3:
-        return `${position}rd`;
-      default:
-        return `${position}th`;
-    }
+    return I18nUtils.t('position.ordinal', { position }, locale);
   }
 
   /**
@@ -239,16 +236,18 @@ export class QueueUtils {
    * Calculates the estimated service completion time for all current queue entries
    * @param queueData Array of queue entries with service times
    * @param numServers Number of servers (default: 1)
+   * @param preserveOrder Serve entries in the given order instead of sorting by position
    * @returns Estimated completion times for each queue entry
    */
   static calculateCompletionTimes<T extends { serviceTime: number }>(
     queueData: T[],
-    numServers: number = 1
+    numServers: number = 1,
+    preserveOrder: boolean = false
   ): { item: T; startTime: number; endTime: number }[] {
     if (queueData.length === 0) return [];
     
     // Sort queue by position or any other criteria if needed
-    const sortedQueue = [...queueData].sort((a, b) => {
+    const sortedQueue = preserveOrder ? [...queueData] : [...queueData].sort((a, b) => {
       // If items have a position property, sort by it
       if ('position' in a && 'position' in b) {
         return (a as any).position - (b as any).position;
@@ -0,0 +1,83 @@
+import { Queue } from '../types/queue';
+import { ValidationError } from './errors';
+import { PartySizeUtils } from './partySize';
+import { QueueEngine } from './queueEngine';
+
+const queue: Queue = {
+  id: 'queue-1',
+  venueId: 'venue-1',
+  name: 'Front desk',
+  isActive: true,
+  isPaused: false,
+  currentPosition: 0,
+  estimatedWaitTime: 0,
+  maxQueueSize: 2,
+  averageServiceTime: 300,
+  lastServedPosition: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+const now = () => new Date('2026-01-01T09:00:00Z');
+
+const thrown = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+};
+
+describe('QueueEngine', () => {
+  it('hands out positions and calls entries in order', () => {
+    const engine = new QueueEngine(queue, [], { now });
+    engine.join('user-1');
+    engine.join('user-2');
+
+    expect(engine.getEntry('queue-1-2').estimatedWaitTime).toBe(300);
+    expect(engine.callNext().userId).toBe('user-1');
+    expect(engine.getQueue()).toMatchObject({ currentPosition: 2, lastServedPosition: 1 });
+  });
+
+  it('rejects a user who is already waiting', () => {
+    const engine = new QueueEngine(queue, [], { now });
+    engine.join('user-1');
+
+    expect(() => engine.join('user-1')).toThrow('User is already in this queue');
+  });
+
+  it('fails a full queue the same way as PartySizeUtils.validateJoin', () => {
+    const engine = new QueueEngine(queue, [], { now });
+    engine.join('user-1');
+    engine.join('user-2');
+
+    const fromEngine = thrown(() => engine.join('user-3'));
+    const fromUtils = thrown(() => PartySizeUtils.validateJoin(1, engine.getEntries(), { maxQueueSize: 2 }));
+
+    expect(fromEngine).toBeInstanceOf(ValidationError);
+    expect(fromEngine).toEqual(fromUtils);
+    expect(fromEngine).toMatchObject({
+      message: 'Cannot join queue',
+      details: [{ field: 'queue', message: 'Queue is full (maximum 2 entries)' }],
+    });
+  });
+
+  it('enforces party size and venue capacity limits on join', () => {
+    const engine = new QueueEngine({ ...queue, maxQueueSize: undefined }, [], {
+      now,
+      limits: { maxPartySize: 4, maxQueueCapacity: 6 },
+    });
+
+    expect(() => engine.join('user-1', { partySize: 0 })).toThrow(ValidationError);
+    expect(thrown(() => engine.join('user-1', { partySize: 5 }))).toMatchObject({
+      details: [{ field: 'partySize', message: 'Party size must not exceed 4' }],
+    });
+
+    engine.join('user-1', { partySize: 4 });
+    expect(thrown(() => engine.join('user-2', { partySize: 3 }))).toMatchObject({
+      details: [{ field: 'partySize', message: 'Venue capacity exceeded (4 of 6 places taken)' }],
+    });
+    expect(engine.join('user-2', { partySize: 2 }).partySize).toBe(2);
+  });
+});
@@ -0,0 +1,271 @@
+import { QueueEntryStatus } from '../types/common';
+import { Queue, QueueEntry } from '../types/queue';
+import { ConflictError, NotFoundError } from './errors';
+import { PartyJoinLimits, PartySizeUtils } from './partySize';
+
+export interface QueueEngineOptions {
+  /** Returns the current time; defaults to the system clock */
+  now?: () => Date;
+  /** Generates ids for new entries; defaults to `<queueId>-<position>` */
+  generateId?: (queue: Queue, position: number) => string;
+  /**
+   * Party and venue limits checked by `join` (`QueueSettings.maxPartySize`,
+   * `Venue.maxQueueCapacity`); the queue's own `maxQueueSize` always applies
+   */
+  limits?: Omit<PartyJoinLimits, 'maxQueueSize'>;
+}
+
+export interface JoinQueueOptions {
+  serviceId?: string;
+  vip?: boolean;
+  partySize?: number;
+  notes?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * In-memory state machine for a single queue and its entries.
+ *
+ * `currentPosition` is the last position handed out by `join`, and
+ * `lastServedPosition` is the position of the last entry taken off the line
+ * by `callNext`. Entry statuses only move along `QueueEngine.TRANSITIONS`;
+ * anything else throws a `ConflictError`.
+ */
+export class QueueEngine {
+  static readonly TRANSITIONS: Readonly<Record<QueueEntryStatus, readonly QueueEntryStatus[]>> = {
+    WAITING: ['CALLED', 'CANCELLED'],
+    CALLED: ['SERVED', 'NOSHOW', 'CANCELLED'],
+    SERVED: [],
+    NOSHOW: [],
+    CANCELLED: [],
+  };
+
+  private queue: Queue;
+  private readonly entries = new Map<string, QueueEntry>();
+  private readonly now: () => Date;
+  private readonly generateId: (queue: Queue, position: number) => string;
+  private readonly limits: Omit<PartyJoinLimits, 'maxQueueSize'>;
+
+  constructor(queue: Queue, entries: QueueEntry[] = [], options: QueueEngineOptions = {}) {
+    this.queue = { ...queue };
+    this.now = options.now || (() => new Date());
+    this.generateId = options.generateId || ((q, position) => `${q.id}-${position}`);
+    this.limits = options.limits || {};
+
+    entries.forEach(entry => {
+      if (entry.queueId !== queue.id) {
+        throw new ConflictError('Entry does not belong to this queue', {
+          entryId: entry.id,
+          queueId: queue.id,
+        });
+      }
+      this.entries.set(entry.id, { ...entry });
+    });
+  }
+
+  /**
+   * Checks whether an entry may move from one status to another
+   */
+  static canTransition(from: QueueEntryStatus, to: QueueEntryStatus): boolean {
+    return QueueEngine.TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Returns a snapshot of the queue
+   */
+  getQueue(): Queue {
+    return { ...this.queue };
+  }
+
+  /**
+   * Returns a snapshot of all entries ordered by position
+   */
+  getEntries(): QueueEntry[] {
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.position - b.position)
+      .map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Returns the waiting entries in the order they will be called
+   */
+  getWaitingEntries(): QueueEntry[] {
+    return this.getEntries().filter(entry => entry.status === 'WAITING');
+  }
+
+  /**
+   * Returns a snapshot of a single entry
+   */
+  getEntry(entryId: string): QueueEntry {
+    return { ...this.findEntry(entryId) };
+  }
+
+  /**
+   * Adds a user to the end of the queue
+   * @throws {ConflictError} If the queue is closed or paused, or the user is already in it
+   * @throws {ValidationError} From `PartySizeUtils.validateJoin` if the queue is full or the party does not fit
+   */
+  join(userId: string, options: JoinQueueOptions = {}): QueueEntry {
+    if (!this.queue.isActive) {
+      throw new ConflictError('Queue is not active', { queueId: this.queue.id });
+    }
+    if (this.queue.isPaused) {
+      throw new ConflictError('Queue is paused', { queueId: this.queue.id });
+    }
+
+    const active = Array.from(this.entries.values())
+      .filter(entry => entry.status === 'WAITING' || entry.status === 'CALLED');
+
+    if (active.some(entry => entry.userId === userId)) {
+      throw new ConflictError('User is already in this queue', { queueId: this.queue.id, userId });
+    }
+    PartySizeUtils.validateJoin(options.partySize ?? 1, active, {
+      ...this.limits,
+      maxQueueSize: this.queue.maxQueueSize,
+    });
+
+    const now = this.now();
+    const position = this.queue.currentPosition + 1;
+    const waitingAhead = active.filter(entry => entry.status === 'WAITING').length;
+
+    const entry: QueueEntry = {
+      id: this.generateId(this.queue, position),
+      queueId: this.queue.id,
+      userId,
+      serviceId: options.serviceId,
+      status: 'WAITING',
+      position,
+      vip: options.vip ?? false,
+      partySize: options.partySize,
+      estimatedWaitTime: waitingAhead * this.queue.averageServiceTime,
+      notes: options.notes,
+      metadata: options.metadata,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.entries.set(entry.id, entry);
+    this.updateQueue({ currentPosition: position }, now);
+
+    return { ...entry };
+  }
+
+  /**
+   * Calls the waiting entry with the lowest position
+   */
+  callNext(): QueueEntry {
+    if (this.queue.isPaused) {
+      throw new ConflictError('Queue is paused', { queueId: this.queue.id });
+    }
+
+    const [next] = this.getWaitingEntries();
+    if (!next) {
+      throw new ConflictError('No one is waiting in the queue', { queueId: this.queue.id });
+    }
+
+    const entry = this.transition(next.id, 'CALLED');
+    this.updateQueue({
+      lastServedPosition: Math.max(this.queue.lastServedPosition, entry.position),
+    }, entry.updatedAt);
+
+    return entry;
+  }
+
+  /**
+   * Marks a called entry as served
+   */
+  markServed(entryId: string): QueueEntry {
+    return this.transition(entryId, 'SERVED');
+  }
+
+  /**
+   * Marks a called entry as a no-show
+   */
+  markNoShow(entryId: string): QueueEntry {
+    return this.transition(entryId, 'NOSHOW');
+  }
+
+  /**
+   * Cancels a waiting or called entry
+   */
+  cancel(entryId: string, reason?: string): QueueEntry {
+    return this.transition(entryId, 'CANCELLED', reason);
+  }
+
+  /**
+   * Pauses the queue; no one can join or be called until it is resumed
+   */
+  pause(): Queue {
+    if (this.queue.isPaused) {
+      throw new ConflictError('Queue is already paused', { queueId: this.queue.id });
+    }
+    this.updateQueue({ isPaused: true }, this.now());
+    return this.getQueue();
+  }
+
+  /**
+   * Resumes a paused queue
+   */
+  resume(): Queue {
+    if (!this.queue.isPaused) {
+      throw new ConflictError('Queue is not paused', { queueId: this.queue.id });
+    }
+    this.updateQueue({ isPaused: false }, this.now());
+    return this.getQueue();
+  }
+
+  private findEntry(entryId: string): QueueEntry {
+    const entry = this.entries.get(entryId);
+    if (!entry) {
+      throw new NotFoundError('Queue entry not found', { entryId, queueId: this.queue.id });
+    }
+    return entry;
+  }
+
+  private transition(entryId: string, to: QueueEntryStatus, notes?: string): QueueEntry {
+    const entry = this.findEntry(entryId);
+
+    if (!QueueEngine.canTransition(entry.status, to)) {
+      throw new ConflictError(`Cannot move queue entry from ${entry.status} to ${to}`, {
+        entryId,
+        from: entry.status,
+        to,
+      });
+    }
+
+    const now = this.now();
+    entry.status = to;
+    entry.updatedAt = now;
+    if (notes !== undefined) entry.notes = notes;
+
+    switch (to) {
+      case 'CALLED':
+        entry.calledAt = now;
+        entry.estimatedWaitTime = 0;
+        break;
+      case 'SERVED':
+        entry.servedAt = now;
+        break;
+      case 'NOSHOW':
+        entry.noShowAt = now;
+        break;
+      case 'CANCELLED':
+        entry.cancelledAt = now;
+        break;
+    }
+
+    this.updateQueue({}, now);
+    return { ...entry };
+  }
+
+  private updateQueue(changes: Partial<Queue>, now: Date): void {
+    this.queue = { ...this.queue, ...changes, updatedAt: now };
+
+    // Keep the per-entry and queue-wide estimates in step with the line
+    const waiting = this.getWaitingEntries();
+    waiting.forEach((entry, index) => {
+      this.entries.get(entry.id)!.estimatedWaitTime = index * this.queue.averageServiceTime;
+    });
+    this.queue.estimatedWaitTime = waiting.length * this.queue.averageServiceTime;
+  }
+}
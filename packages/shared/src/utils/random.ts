@@ -0,0 +1,48 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), like `Math.random`
+ */
+export type RandomSource = () => number;
+
+export class RandomUtils {
+  /**
+   * Creates a deterministic random source from a numeric seed (mulberry32)
+   */
+  static createSeededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Resolves an injected random source or seed, falling back to `Math.random`
+   */
+  static resolve(options: { random?: RandomSource; seed?: number } = {}): RandomSource {
+    if (options.random) return options.random;
+    if (options.seed !== undefined) return this.createSeededRandom(options.seed);
+    return Math.random;
+  }
+
+  /**
+   * Draws from a standard normal distribution (Box-Muller)
+   */
+  static normal(random: RandomSource, mean: number = 0, standardDeviation: number = 1): number {
+    // 1 - u keeps the logarithm away from zero
+    const u1 = 1 - random();
+    const u2 = random();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return mean + z * standardDeviation;
+  }
+
+  /**
+   * Draws from an exponential distribution with the given mean
+   */
+  static exponential(random: RandomSource, mean: number): number {
+    return -Math.log(1 - random()) * mean;
+  }
+}
@@ -0,0 +1,73 @@
+import { QueueEntry } from '../types/queue';
+import { ValidationError } from './errors';
+import { ServiceTimeEstimator, ServiceTimeEstimatorState } from './serviceTime';
+
+const served = (id: string, calledAt: string, seconds: number): QueueEntry => ({
+  id,
+  queueId: 'queue-1',
+  userId: `user-${id}`,
+  serviceId: 'service-1',
+  status: 'SERVED',
+  position: 1,
+  vip: false,
+  calledAt: new Date(calledAt),
+  servedAt: new Date(new Date(calledAt).getTime() + seconds * 1000),
+  createdAt: new Date(calledAt),
+  updatedAt: new Date(calledAt),
+});
+
+describe('ServiceTimeEstimator', () => {
+  it('falls back to the default until a bucket has minSamples', () => {
+    const estimator = new ServiceTimeEstimator({ minSamples: 3, defaultServiceTime: 300 });
+    estimator.ingest(served('1', '2026-03-02T06:00:00Z', 120));
+
+    expect(estimator.estimate('queue-1', 'service-1')).toMatchObject({ averageServiceTime: 300, source: 'default' });
+  });
+
+  it('buckets hours of the week in the venue timezone', () => {
+    const estimator = new ServiceTimeEstimator({ minSamples: 3, timezone: 'Asia/Riyadh' });
+    // Monday 09:00 in Riyadh is 06:00 UTC
+    ['2026-03-02T06:00:00Z', '2026-03-09T06:10:00Z', '2026-03-16T06:20:00Z'].forEach((calledAt, index) =>
+      estimator.ingest(served(String(index), calledAt, 600))
+    );
+
+    expect(Object.keys(estimator.toJSON().serviceTimes)).toContain(`hourOfWeek:queue-1:service-1:${24 + 9}`);
+    expect(estimator.estimate('queue-1', 'service-1', new Date('2026-03-23T06:30:00Z')).source).toBe('hourOfWeek');
+    expect(estimator.estimate('queue-1', 'service-1', new Date('2026-03-23T09:30:00Z')).source).toBe('queueService');
+  });
+
+  it('learns the no-show rate per queue', () => {
+    const estimator = new ServiceTimeEstimator({ minSamples: 2, alpha: 0.5 });
+    estimator.ingest({ ...served('1', '2026-03-02T06:00:00Z', 60), status: 'NOSHOW' });
+    estimator.ingest(served('2', '2026-03-02T06:05:00Z', 60));
+
+    expect(estimator.estimate('queue-1').noShowProbability).toBe(0.5);
+    const restored = ServiceTimeEstimator.fromJSON(estimator.toJSON(), { minSamples: 2 });
+    expect(restored.estimate('queue-1').noShowProbability).toBe(0.5);
+  });
+
+  it('rejects a malformed snapshot with the fields at fault', () => {
+    const state = {
+      version: 2,
+      serviceTimes: { 'queue:queue-1': { mean: 300, variance: 'high', samples: 4 } },
+      noShows: null,
+    } as unknown as ServiceTimeEstimatorState;
+
+    let error: unknown;
+    try {
+      ServiceTimeEstimator.fromJSON(state);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      statusCode: 422,
+      details: [
+        { field: 'version', message: 'Unsupported state version: 2' },
+        { field: 'serviceTimes.queue:queue-1', message: 'Mean, variance and samples must be numbers' },
+        { field: 'noShows', message: 'Must be an object of running stats' },
+      ],
+    });
+  });
+});
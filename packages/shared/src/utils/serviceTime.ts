@@ -0,0 +1,259 @@
+import { QueueEntry } from '../types/queue';
+import { ValidationError } from './errors';
+import { QueueUtils } from './queue';
+import { TimezoneUtils } from './timezone';
+import { WaitTimeEstimate } from './waitTime';
+
+interface RunningStats {
+  mean: number;
+  variance: number;
+  samples: number;
+}
+
+export type ServiceTimeSource = 'hourOfWeek' | 'queueService' | 'service' | 'queue' | 'default';
+
+export interface ServiceTimeEstimate {
+  /** Expected service time in seconds */
+  averageServiceTime: number;
+  /** Coefficient of variation (0-1), as taken by `QueueUtils.calculateWaitTime` */
+  varianceServiceTime: number;
+  /** Standard deviation of the service time in seconds */
+  standardDeviation: number;
+  /** Probability that a called customer does not show up (0-1) */
+  noShowProbability: number;
+  /** Number of samples behind the estimate */
+  samples: number;
+  /** Which bucket the estimate came from */
+  source: ServiceTimeSource;
+}
+
+export interface ServiceTimeEstimatorState {
+  version: 1;
+  serviceTimes: Record<string, RunningStats>;
+  noShows: Record<string, RunningStats>;
+}
+
+export interface ServiceTimeEstimatorOptions {
+  /** Weight of each new observation (0-1) */
+  alpha?: number;
+  /** Samples a bucket needs before it is preferred over a broader one */
+  minSamples?: number;
+  /** Service time in seconds used when nothing has been observed */
+  defaultServiceTime?: number;
+  /** Coefficient of variation used when nothing has been observed */
+  defaultVariance?: number;
+  /** Observations longer than this (in seconds) are treated as outliers and dropped */
+  maxServiceTime?: number;
+  /** IANA timezone of the venue, which hours of the week are read in (default: UTC) */
+  timezone?: string;
+  /** Maps an instant to its hour of the week (0-167); overrides `timezone` */
+  hourOfWeek?: (date: Date) => number;
+}
+
+const ANY_SERVICE = '*';
+
+/**
+ * Learns service times from completed queue entries.
+ *
+ * Keeps an exponentially weighted mean and variance of `servedAt - calledAt`
+ * per queue, per service, per queue/service pair and per queue/service pair
+ * and hour of the week, plus an exponentially weighted no-show rate per
+ * queue. `estimate` answers from the narrowest bucket that has enough samples.
+ */
+export class ServiceTimeEstimator {
+  private readonly alpha: number;
+  private readonly minSamples: number;
+  private readonly defaultServiceTime: number;
+  private readonly defaultVariance: number;
+  private readonly maxServiceTime: number;
+  private readonly hourOfWeek: (date: Date) => number;
+  private serviceTimes: Record<string, RunningStats> = {};
+  private noShows: Record<string, RunningStats> = {};
+
+  constructor(options: ServiceTimeEstimatorOptions = {}) {
+    this.alpha = options.alpha ?? 0.1;
+    this.minSamples = options.minSamples ?? 5;
+    this.defaultServiceTime = options.defaultServiceTime ?? 5 * 60;
+    this.defaultVariance = options.defaultVariance ?? 0.2;
+    this.maxServiceTime = options.maxServiceTime ?? 4 * 60 * 60;
+    const timezone = options.timezone ? TimezoneUtils.validateTimezone(options.timezone) : 'UTC';
+    this.hourOfWeek = options.hourOfWeek || (date => {
+      const { dayOfWeek, hour } = TimezoneUtils.getZonedParts(date, timezone);
+      return dayOfWeek * 24 + hour;
+    });
+  }
+
+  /**
+   * Restores an estimator from state produced by `toJSON`
+   * @throws {ValidationError} If the state is malformed or from another version
+   */
+  static fromJSON(
+    state: ServiceTimeEstimatorState,
+    options: ServiceTimeEstimatorOptions = {}
+  ): ServiceTimeEstimator {
+    const errors: { field: string; message: string }[] = [];
+
+    if (!state || state.version !== 1) {
+      errors.push({ field: 'version', message: `Unsupported state version: ${state?.version}` });
+    }
+    (['serviceTimes', 'noShows'] as const).forEach(field => {
+      const buckets = state?.[field];
+      if (!buckets || typeof buckets !== 'object') {
+        errors.push({ field, message: 'Must be an object of running stats' });
+        return;
+      }
+      Object.keys(buckets).forEach(key => {
+        const { mean, variance, samples } = buckets[key] || ({} as Partial<RunningStats>);
+        if (![mean, variance, samples].every(value => typeof value === 'number' && isFinite(value))) {
+          errors.push({ field: `${field}.${key}`, message: 'Mean, variance and samples must be numbers' });
+        }
+      });
+    });
+
+    if (errors.length) {
+      throw new ValidationError('Invalid service time estimator state', errors);
+    }
+
+    const estimator = new ServiceTimeEstimator(options);
+    estimator.serviceTimes = { ...state.serviceTimes };
+    estimator.noShows = { ...state.noShows };
+    return estimator;
+  }
+
+  /**
+   * Returns a JSON-serializable snapshot of the learned state
+   */
+  toJSON(): ServiceTimeEstimatorState {
+    return {
+      version: 1,
+      serviceTimes: { ...this.serviceTimes },
+      noShows: { ...this.noShows },
+    };
+  }
+
+  /**
+   * Learns from a completed queue entry.
+   * Served entries update service times, no-shows update the no-show rate;
+   * anything else is ignored.
+   * @returns Whether the entry was used
+   */
+  ingest(entry: QueueEntry): boolean {
+    if (entry.status === 'NOSHOW') {
+      this.update(this.noShows, entry.queueId, 1);
+      return true;
+    }
+
+    if (entry.status !== 'SERVED' || !entry.calledAt || !entry.servedAt) {
+      return false;
+    }
+
+    const calledAt = new Date(entry.calledAt);
+    const serviceTime = (new Date(entry.servedAt).getTime() - calledAt.getTime()) / 1000;
+    if (serviceTime <= 0 || serviceTime > this.maxServiceTime) {
+      return false;
+    }
+
+    const serviceId = entry.serviceId || ANY_SERVICE;
+    const keys = [
+      `queue:${entry.queueId}`,
+      `queueService:${entry.queueId}:${serviceId}`,
+      `hourOfWeek:${entry.queueId}:${serviceId}:${this.hourOfWeek(calledAt)}`,
+    ];
+    if (entry.serviceId) keys.push(`service:${entry.serviceId}`);
+
+    keys.forEach(key => this.update(this.serviceTimes, key, serviceTime));
+    this.update(this.noShows, entry.queueId, 0);
+    return true;
+  }
+
+  /**
+   * Learns from a batch of completed queue entries
+   * @returns Number of entries that were used
+   */
+  ingestAll(entries: QueueEntry[]): number {
+    return entries.reduce((used, entry) => used + (this.ingest(entry) ? 1 : 0), 0);
+  }
+
+  /**
+   * Estimates the service time for a queue/service at a given instant
+   */
+  estimate(queueId: string, serviceId?: string | null, at: Date = new Date()): ServiceTimeEstimate {
+    const service = serviceId || ANY_SERVICE;
+    const candidates: [ServiceTimeSource, string][] = [
+      ['hourOfWeek', `hourOfWeek:${queueId}:${service}:${this.hourOfWeek(at)}`],
+      ['queueService', `queueService:${queueId}:${service}`],
+    ];
+    if (serviceId) candidates.push(['service', `service:${serviceId}`]);
+    candidates.push(['queue', `queue:${queueId}`]);
+
+    const noShow = this.noShows[queueId];
+    const noShowProbability = noShow && noShow.samples >= this.minSamples
+      ? Math.min(1, Math.max(0, noShow.mean))
+      : 0;
+
+    for (const [source, key] of candidates) {
+      const stats = this.serviceTimes[key];
+      if (stats && stats.samples >= this.minSamples) {
+        const standardDeviation = Math.sqrt(stats.variance);
+        return {
+          averageServiceTime: Math.round(stats.mean),
+          varianceServiceTime: Math.min(1, standardDeviation / stats.mean),
+          standardDeviation: Math.round(standardDeviation),
+          noShowProbability,
+          samples: stats.samples,
+          source,
+        };
+      }
+    }
+
+    return {
+      averageServiceTime: this.defaultServiceTime,
+      varianceServiceTime: this.defaultVariance,
+      standardDeviation: Math.round(this.defaultServiceTime * this.defaultVariance),
+      noShowProbability,
+      samples: 0,
+      source: 'default',
+    };
+  }
+
+  /**
+   * Estimates the wait for a position using the learned service time,
+   * adjusted for the learned no-show probability
+   */
+  estimateWaitTime(
+    queueId: string,
+    serviceId: string | null | undefined,
+    position: number,
+    at: Date = new Date()
+  ): WaitTimeEstimate {
+    const { averageServiceTime, varianceServiceTime, noShowProbability } = this.estimate(queueId, serviceId, at);
+    const range = QueueUtils.estimateWaitTime(position, averageServiceTime, varianceServiceTime);
+    const adjust = (seconds: number) =>
+      QueueUtils.adjustForNoShowProbability(seconds, noShowProbability, position);
+
+    return {
+      estimate: adjust(range.estimate),
+      p10: adjust(range.p10),
+      p50: adjust(range.p50),
+      p90: adjust(range.p90),
+      standardDeviation: range.standardDeviation,
+    };
+  }
+
+  private update(buckets: Record<string, RunningStats>, key: string, value: number): void {
+    const stats = buckets[key];
+    if (!stats) {
+      buckets[key] = { mean: value, variance: 0, samples: 1 };
+      return;
+    }
+
+    // Incremental exponentially weighted mean and variance (West, 1979)
+    const diff = value - stats.mean;
+    const increment = this.alpha * diff;
+    buckets[key] = {
+      mean: stats.mean + increment,
+      variance: (1 - this.alpha) * (stats.variance + diff * increment),
+      samples: stats.samples + 1,
+    };
+  }
+}
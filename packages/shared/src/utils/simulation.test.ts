@@ -0,0 +1,44 @@
+import { AgingPolicy } from './ordering';
+import { QueueSimulator, SimulationConfig } from './simulation';
+
+const config: SimulationConfig = {
+  arrivalRates: [20, 40, 30],
+  startHour: 9,
+  serviceTime: { type: 'exponential', mean: 240 },
+  servers: 2,
+  noShowProbability: 0.1,
+  vipShare: 0.2,
+  policy: new AgingPolicy(),
+  date: new Date('2026-03-02T12:00:00Z'),
+  timezone: 'Asia/Riyadh',
+  seed: 42,
+};
+
+describe('QueueSimulator', () => {
+  it('gives the same result for the same seed', () => {
+    expect(QueueSimulator.run(config)).toEqual(QueueSimulator.run(config));
+    expect(QueueSimulator.run({ ...config, seed: 43 })).not.toEqual(QueueSimulator.run(config));
+  });
+
+  it('reads the calendar day in the venue timezone', () => {
+    // Sunday 22:00 UTC is already Monday in Riyadh (UTC+3)
+    const result = QueueSimulator.run({ ...config, date: new Date('2026-03-01T22:00:00Z') });
+
+    expect(result.hourly.map(hour => hour.hour)).toEqual([9, 10, 11]);
+    expect(result.stats.peakHours.map(hour => hour.day)).toEqual(['Monday', 'Monday', 'Monday']);
+    expect(result.analytics.totalEntries).toBe(result.hourly.reduce((total, hour) => total + hour.arrivals, 0));
+  });
+
+  it('serves every arrival with constant service times', () => {
+    const result = QueueSimulator.run({
+      arrivalRates: [6],
+      serviceTime: { type: 'constant', mean: 60 },
+      servers: 1,
+      seed: 7,
+    });
+
+    expect(result.analytics.completed).toBe(result.analytics.totalEntries);
+    expect(result.analytics.averageServiceTime).toBe(60);
+    expect(result.noShowRate).toBe(0);
+  });
+});
@@ -0,0 +1,283 @@
+import { QueueAnalytics, QueueStats } from '../types/queue';
+import { FifoPolicy, QueueOrderingPolicy, StrictPriorityPolicy } from './ordering';
+import { QueueUtils } from './queue';
+import { RandomSource, RandomUtils } from './random';
+import { TimezoneUtils } from './timezone';
+
+export type ServiceTimeDistribution =
+  | { type: 'constant'; mean: number }
+  | { type: 'exponential'; mean: number }
+  | { type: 'normal'; mean: number; standardDeviation: number };
+
+export interface SimulationConfig {
+  /** Arrival rate in customers per hour, one value per simulated hour */
+  arrivalRates: number[];
+  /** Hour of day (0-23) the first arrival rate applies to */
+  startHour?: number;
+  /** Service time distribution in seconds */
+  serviceTime: ServiceTimeDistribution;
+  /** Number of servers */
+  servers: number;
+  /** Probability (0-1) that a called customer does not show up */
+  noShowProbability?: number;
+  /** Historical no-shows to derive `noShowProbability` from */
+  noShowHistory?: { totalNoShows: number; totalEntries: number };
+  /** Seconds a server waits for a no-show before calling the next customer */
+  noShowTimeout?: number;
+  /** Share (0-1) of arrivals that are VIP */
+  vipShare?: number;
+  /** Ordering policy; defaults to strict priority when there are VIPs, FIFO otherwise */
+  policy?: QueueOrderingPolicy;
+  /** Calendar date of the simulated day, as seen in `timezone` */
+  date?: Date;
+  /** IANA timezone of the venue, which `startHour` is in (default: UTC) */
+  timezone?: string;
+  /** Random source; takes precedence over `seed` */
+  random?: RandomSource;
+  /** Seed for reproducible runs */
+  seed?: number;
+}
+
+export interface SimulationHourResult {
+  hour: number;
+  arrivals: number;
+  averageWaitTime: number; // in seconds
+  maxQueueLength: number;
+}
+
+export interface SimulationResult {
+  analytics: QueueAnalytics;
+  stats: QueueStats;
+  hourly: SimulationHourResult[];
+  peakQueueLength: number;
+  noShowRate: number; // 0-1
+  p90WaitTime: number; // in seconds
+  vipAverageWaitTime: number; // in seconds
+  regularAverageWaitTime: number; // in seconds
+  /** Seconds from opening until the last customer left */
+  makespan: number;
+}
+
+interface SimulatedCustomer {
+  id: string;
+  position: number;
+  vip: boolean;
+  createdAt: Date;
+  arrivalTime: number;
+  waitTime?: number;
+  serviceTime?: number;
+  noShow?: boolean;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Discrete-event simulator for a multi-server queue over a day.
+ *
+ * Arrivals follow a Poisson process whose rate changes every hour. Servers
+ * call the next waiting customer as soon as they are free; a no-show holds
+ * the server for `noShowTimeout` seconds. Customers arriving before closing
+ * are all served, so `makespan` can run past the last arrival hour.
+ */
+export class QueueSimulator {
+  /**
+   * Runs one replication of the simulation
+   */
+  static run(config: SimulationConfig): SimulationResult {
+    const {
+      arrivalRates,
+      startHour = 0,
+      serviceTime,
+      servers,
+      noShowTimeout = 60,
+      vipShare = 0,
+      date = new Date(),
+    } = config;
+
+    if (servers < 1) {
+      throw new RangeError('At least one server is required');
+    }
+
+    const random = RandomUtils.resolve(config);
+    const noShowProbability = config.noShowProbability ?? (config.noShowHistory
+      ? QueueUtils.calculateNoShowProbability(
+        config.noShowHistory.totalNoShows,
+        config.noShowHistory.totalEntries
+      )
+      : 0);
+    const policy = config.policy || (vipShare > 0 ? new StrictPriorityPolicy() : new FifoPolicy());
+    const timezone = config.timezone ? TimezoneUtils.validateTimezone(config.timezone) : 'UTC';
+    const day = TimezoneUtils.getZonedParts(date, timezone);
+    const opensAt = TimezoneUtils.zonedTimeToDate(day.year, day.month, day.day, startHour * 60, timezone).getTime();
+
+    const customers = this.generateArrivals(arrivalRates, vipShare, opensAt, random);
+    const serverFreeAt: number[] = Array(servers).fill(0);
+    const waiting: SimulatedCustomer[] = [];
+    const hourly = arrivalRates.map((_, index) => ({
+      hour: (startHour + index) % 24,
+      arrivals: 0,
+      totalWait: 0,
+      served: 0,
+      maxQueueLength: 0,
+    }));
+    let peakQueueLength = 0;
+    let nextArrival = 0;
+    let clock = 0;
+
+    const recordQueueLength = () => {
+      peakQueueLength = Math.max(peakQueueLength, waiting.length);
+      const bucket = hourly[Math.min(hourly.length - 1, Math.floor(clock / 3600))];
+      if (bucket) bucket.maxQueueLength = Math.max(bucket.maxQueueLength, waiting.length);
+    };
+
+    while (nextArrival < customers.length || waiting.length > 0) {
+      const freeServer = serverFreeAt.findIndex(freeAt => freeAt <= clock);
+
+      // Call the next customer while a server is free
+      if (freeServer !== -1 && waiting.length > 0) {
+        const [next] = policy.order(waiting, new Date(opensAt + clock * 1000));
+        waiting.splice(waiting.indexOf(next), 1);
+
+        next.waitTime = clock - next.arrivalTime;
+        next.noShow = random() < noShowProbability;
+        next.serviceTime = next.noShow ? 0 : this.sampleServiceTime(serviceTime, random);
+        serverFreeAt[freeServer] = clock + (next.noShow ? noShowTimeout : next.serviceTime);
+
+        if (!next.noShow) {
+          const bucket = hourly[Math.min(hourly.length - 1, Math.floor(next.arrivalTime / 3600))];
+          bucket.totalWait += next.waitTime;
+          bucket.served++;
+        }
+        recordQueueLength();
+        continue;
+      }
+
+      // Otherwise advance to the next arrival or the next server becoming free
+      const nextFree = Math.min(...serverFreeAt.filter(freeAt => freeAt > clock));
+      const arrivalTime = nextArrival < customers.length ? customers[nextArrival].arrivalTime : Infinity;
+
+      if (arrivalTime <= nextFree || waiting.length === 0) {
+        clock = Math.max(clock, arrivalTime);
+        const customer = customers[nextArrival++];
+        waiting.push(customer);
+        hourly[Math.floor(customer.arrivalTime / 3600)].arrivals++;
+      } else {
+        clock = nextFree;
+      }
+      recordQueueLength();
+    }
+
+    return this.summarize(customers, hourly, {
+      date,
+      dayOfWeek: day.dayOfWeek,
+      peakQueueLength,
+      makespan: Math.max(clock, ...serverFreeAt),
+    });
+  }
+
+  private static generateArrivals(
+    arrivalRates: number[],
+    vipShare: number,
+    opensAt: number,
+    random: RandomSource
+  ): SimulatedCustomer[] {
+    const customers: SimulatedCustomer[] = [];
+
+    arrivalRates.forEach((rate, hour) => {
+      if (rate <= 0) return;
+
+      // Exponential gaps are memoryless, so each hour can restart at its boundary
+      let time = hour * 3600 + RandomUtils.exponential(random, 3600 / rate);
+      while (time < (hour + 1) * 3600) {
+        const position = customers.length + 1;
+        customers.push({
+          id: `sim-${position}`,
+          position,
+          vip: random() < vipShare,
+          createdAt: new Date(opensAt + time * 1000),
+          arrivalTime: time,
+        });
+        time += RandomUtils.exponential(random, 3600 / rate);
+      }
+    });
+
+    return customers;
+  }
+
+  private static sampleServiceTime(distribution: ServiceTimeDistribution, random: RandomSource): number {
+    switch (distribution.type) {
+      case 'constant':
+        return distribution.mean;
+      case 'exponential':
+        return RandomUtils.exponential(random, distribution.mean);
+      case 'normal':
+        // Truncate so nobody is served in no time
+        return Math.max(1, RandomUtils.normal(random, distribution.mean, distribution.standardDeviation));
+      default: {
+        const unsupported: never = distribution;
+        throw new Error(`Unsupported service time distribution: ${JSON.stringify(unsupported)}`);
+      }
+    }
+  }
+
+  private static summarize(
+    customers: SimulatedCustomer[],
+    hourly: { hour: number; arrivals: number; totalWait: number; served: number; maxQueueLength: number }[],
+    run: { date: Date; dayOfWeek: number; peakQueueLength: number; makespan: number }
+  ): SimulationResult {
+    const served = customers.filter(customer => !customer.noShow);
+    const noShows = customers.length - served.length;
+    const average = (values: number[]) =>
+      values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+    const waits = served.map(customer => customer.waitTime!).sort((a, b) => a - b);
+    const averageWaitTime = average(waits);
+    const averageServiceTime = average(served.map(customer => customer.serviceTime!));
+    const noShowRate = QueueUtils.calculateNoShowProbability(noShows, customers.length);
+
+    const hourlyResults = hourly.map(bucket => ({
+      hour: bucket.hour,
+      arrivals: bucket.arrivals,
+      averageWaitTime: bucket.served ? Math.round(bucket.totalWait / bucket.served) : 0,
+      maxQueueLength: bucket.maxQueueLength,
+    }));
+    const peak = hourlyResults.reduce(
+      (best, bucket) => (bucket.arrivals > best.arrivals ? bucket : best),
+      hourlyResults[0] || { hour: 0, arrivals: 0, averageWaitTime: 0, maxQueueLength: 0 }
+    );
+    const day = DAYS[run.dayOfWeek];
+
+    return {
+      analytics: {
+        date: run.date,
+        totalEntries: customers.length,
+        completed: served.length,
+        noShows,
+        cancellations: 0,
+        averageWaitTime,
+        averageServiceTime,
+        peakHour: { hour: peak.hour, count: peak.arrivals },
+      },
+      stats: {
+        totalServed: served.length,
+        averageWaitTime,
+        averageServiceTime,
+        noShowRate: Math.round(noShowRate * 10000) / 100,
+        peakHours: [...hourlyResults]
+          .sort((a, b) => b.averageWaitTime - a.averageWaitTime)
+          .slice(0, 3)
+          .map(bucket => ({ hour: bucket.hour, day, averageWaitTime: bucket.averageWaitTime })),
+        currentQueueLength: 0,
+        maxConcurrentUsers: run.peakQueueLength,
+        averageDailyUsers: customers.length,
+      },
+      hourly: hourlyResults,
+      peakQueueLength: run.peakQueueLength,
+      noShowRate,
+      p90WaitTime: waits.length ? Math.round(waits[Math.min(waits.length - 1, Math.floor(waits.length * 0.9))]) : 0,
+      vipAverageWaitTime: average(served.filter(customer => customer.vip).map(customer => customer.waitTime!)),
+      regularAverageWaitTime: average(served.filter(customer => !customer.vip).map(customer => customer.waitTime!)),
+      makespan: Math.round(run.makespan),
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { SlotUtils } from './slots';
+
+// 2026-03-02 is a Monday
+const hours = [{ dayOfWeek: 1, openTime: '09:00', closeTime: '11:00' }];
+
+describe('SlotUtils', () => {
+  it('places slots in the venue timezone, whatever the host timezone', () => {
+    // 09:00 in Riyadh (UTC+3) is 06:00 UTC
+    const availability = SlotUtils.generateAvailability({
+      date: '2026-03-02',
+      hours,
+      timezone: 'Asia/Riyadh',
+      rules: { isBookable: true, slotInterval: 30, minNotice: 60 },
+      now: new Date('2026-03-02T06:15:00Z'),
+    });
+
+    // Slots before 10:15 local are inside the notice period
+    expect(availability.slots.map(slot => [slot.startTime, slot.isAvailable])).toEqual([
+      ['09:00', false],
+      ['09:30', false],
+      ['10:00', false],
+      ['10:30', true],
+    ]);
+  });
+
+  it('subtracts bookings that overlap in absolute time', () => {
+    const availability = SlotUtils.generateAvailability({
+      date: '2026-03-02',
+      hours,
+      timezone: 'Asia/Riyadh',
+      rules: { isBookable: true, slotInterval: 60, maxConcurrent: 2 },
+      bookings: [{ startTime: '2026-03-02T06:00:00Z', endTime: '2026-03-02T07:00:00Z' }],
+      now: new Date('2026-03-02T00:00:00Z'),
+    });
+
+    expect(availability.slots.map(slot => slot.availableSlots)).toEqual([1, 2]);
+  });
+
+  it('offers overnight slots that straddle midnight under the date they open on', () => {
+    const overnight = [{ dayOfWeek: 1, openTime: '22:00', closeTime: '02:00' }];
+    const rules = { isBookable: true, slotInterval: 30, duration: 60 };
+    const now = new Date('2026-03-01T00:00:00Z');
+
+    const monday = SlotUtils.generateAvailability({ date: '2026-03-02', hours: overnight, rules, now });
+    const tuesday = SlotUtils.generateAvailability({ date: '2026-03-03', hours: overnight, rules, now });
+
+    expect(monday.slots.map(slot => [slot.startTime, slot.endTime])).toEqual([
+      ['22:00', '23:00'],
+      ['22:30', '23:30'],
+      ['23:00', '00:00'],
+      ['23:30', '00:30'],
+      ['00:00', '01:00'],
+      ['00:30', '01:30'],
+      ['01:00', '02:00'],
+    ]);
+    expect(tuesday.slots).toEqual([]);
+  });
+
+  it('lets late slots of a 24-hour day run into the next day when it is open too', () => {
+    const rules = { isBookable: true, slotInterval: 30, duration: 60 };
+    const now = new Date('2026-03-01T00:00:00Z');
+    const lastSlot = (hours: { dayOfWeek: number; is24Hours: boolean }[]) => {
+      const { slots } = SlotUtils.generateAvailability({ date: '2026-03-02', hours, rules, now });
+      return slots[slots.length - 1];
+    };
+
+    expect(lastSlot([{ dayOfWeek: 1, is24Hours: true }, { dayOfWeek: 2, is24Hours: true }]))
+      .toMatchObject({ startTime: '23:30', endTime: '00:30' });
+    expect(lastSlot([{ dayOfWeek: 1, is24Hours: true }])).toMatchObject({ startTime: '23:00', endTime: '00:00' });
+  });
+
+  it('treats a null maxConcurrent as unlimited and a missing one as 1', () => {
+    const base = {
+      date: '2026-03-02',
+      hours,
+      bookings: [{ startTime: '2026-03-02T09:00:00Z', endTime: '2026-03-02T10:00:00Z', quantity: 5 }],
+      now: new Date('2026-03-02T00:00:00Z'),
+    };
+
+    const unlimited = SlotUtils.generateAvailability({
+      ...base,
+      rules: { isBookable: true, slotInterval: 60, maxConcurrent: null },
+    });
+    const single = SlotUtils.generateAvailability({ ...base, rules: { isBookable: true, slotInterval: 60 } });
+
+    expect(unlimited.slots.map(slot => [slot.isAvailable, slot.availableSlots])).toEqual([[true, null], [true, null]]);
+    expect(single.slots.map(slot => slot.availableSlots)).toEqual([0, 1]);
+  });
+});
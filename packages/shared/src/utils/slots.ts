@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { serviceAvailabilitySchema, serviceBaseSchema } from '../schemas/service';
+import { venueAvailabilitySchema } from '../schemas/venue';
+import { HoursExceptionRule, HoursExceptionUtils } from './calendar';
+import { BadRequestError } from './errors';
+import { MINUTES_IN_DAY, MinuteInterval, OperatingHoursUtils, WeeklyHoursRule } from './hours';
+import { TimezoneUtils } from './timezone';
+
+export type BookingRules = Partial<Pick<
+  z.infer<typeof serviceBaseSchema>,
+  | 'isBookable'
+  | 'slotInterval'
+  | 'minNotice'
+  | 'maxAdvance'
+  | 'bufferTime'
+  | 'preparationTime'
+  | 'cleanupTime'
+  | 'maxConcurrent'
+>> & {
+  /** Length of one appointment in minutes; defaults to `slotInterval` */
+  duration?: number;
+};
+
+export interface ExistingBooking {
+  startTime: Date | string;
+  endTime: Date | string;
+  /** Places the booking takes (default: 1) */
+  quantity?: number;
+}
+
+export interface SlotGenerationInput {
+  /** Day to generate slots for, in YYYY-MM-DD format */
+  date: string;
+  /** Weekly opening hours of the service or venue */
+  hours: WeeklyHoursRule[];
+  /** Holiday and special-hours exceptions to the weekly hours */
+  exceptions?: HoursExceptionRule[];
+  /** Booking rules of the service */
+  rules: BookingRules;
+  /** Bookings that already hold capacity */
+  bookings?: ExistingBooking[];
+  /** Current time; slots inside the notice period or beyond the advance window are unavailable */
+  now?: Date;
+  /** IANA timezone of the venue, which `date` and the hours are in (default: UTC) */
+  timezone?: string;
+}
+
+export type VenueAvailability = z.infer<typeof venueAvailabilitySchema>;
+
+export type ServiceAvailability = z.infer<typeof serviceAvailabilitySchema>;
+
+/**
+ * Generates bookable appointment slots from opening hours and booking rules.
+ *
+ * A slot starting at `t` needs the resource from `t - preparationTime` until
+ * `t + duration + cleanupTime + bufferTime`, and that whole window must fit
+ * within an open span. Existing bookings hold capacity for the same padded
+ * window. Dates and hours are wall-clock times in the venue's timezone.
+ * Slots belong to the date whose hours they start in, so overnight hours
+ * (e.g., 22:00–02:00) list their slots after midnight under the date they
+ * open on, and a slot may run past midnight into the next day's hours.
+ * A null `maxConcurrent` means no limit, reported as null `availableSlots`.
+ */
+export class SlotUtils {
+  /**
+   * Generates the availability of a venue-level resource for a day
+   */
+  static generateAvailability(input: SlotGenerationInput): VenueAvailability {
+    const { date, hours, exceptions = [], bookings = [], now = new Date() } = input;
+    const timezone = input.timezone ? TimezoneUtils.validateTimezone(input.timezone) : 'UTC';
+    const rules = this.resolveRules(input.rules);
+    const day = this.parseDate(date);
+
+    if (!rules.isBookable) {
+      return { date, slots: [] };
+    }
+
+    const earliest = now.getTime() + rules.minNotice * 60000;
+    const latest = now.getTime() + rules.maxAdvance * 60000;
+    const busy = bookings.map(booking => ({
+      start: new Date(booking.startTime).getTime() - rules.preparationTime * 60000,
+      end: new Date(booking.endTime).getTime() + (rules.cleanupTime + rules.bufferTime) * 60000,
+      quantity: booking.quantity ?? 1,
+    }));
+
+    const slots: VenueAvailability['slots'] = [];
+
+    const ownSpans = OperatingHoursUtils.mergeIntervals(this.getSpans(hours, exceptions, date, 0));
+    // The next day's hours let slots started today run past midnight
+    const openSpans = OperatingHoursUtils.mergeIntervals([
+      ...ownSpans,
+      ...this.getSpans(hours, exceptions, HoursExceptionUtils.addDays(date, 1), MINUTES_IN_DAY),
+    ]);
+
+    ownSpans.forEach(interval => {
+      const open = openSpans.find(span => span.start <= interval.start && interval.end <= span.end)!;
+      for (
+        let start = interval.start + rules.preparationTime;
+        start < interval.end && start + rules.duration + rules.cleanupTime + rules.bufferTime <= open.end;
+        start += rules.slotInterval
+      ) {
+        const startsAt = TimezoneUtils.zonedTimeToDate(day.year, day.month, day.day, start, timezone).getTime();
+        const windowStart = startsAt - rules.preparationTime * 60000;
+        const windowEnd = startsAt + (rules.duration + rules.cleanupTime + rules.bufferTime) * 60000;
+
+        const taken = busy
+          .filter(booking => booking.start < windowEnd && booking.end > windowStart)
+          .reduce((total, booking) => total + booking.quantity, 0);
+        const bookable = startsAt >= earliest && startsAt <= latest;
+        let availableSlots: number | null = 0;
+        if (bookable) {
+          availableSlots = rules.maxConcurrent === null ? null : Math.max(0, rules.maxConcurrent - taken);
+        }
+
+        slots.push({
+          startTime: OperatingHoursUtils.formatTime(start),
+          endTime: OperatingHoursUtils.formatTime(start + rules.duration),
+          isAvailable: availableSlots === null || availableSlots > 0,
+          availableSlots,
+        });
+      }
+    });
+
+    return { date, slots };
+  }
+
+  /**
+   * Generates the availability of a service for a day
+   */
+  static generateServiceAvailability(serviceId: string, input: SlotGenerationInput): ServiceAvailability {
+    return { serviceId, ...this.generateAvailability(input) };
+  }
+
+  /**
+   * Returns the uncapped spans of a date's own hours, shifted by `offset` minutes
+   */
+  private static getSpans(
+    hours: WeeklyHoursRule[],
+    exceptions: HoursExceptionRule[],
+    date: string,
+    offset: number
+  ): MinuteInterval[] {
+    return HoursExceptionUtils.resolveRulesForDate(hours, exceptions, date)
+      .map(rule => OperatingHoursUtils.toInterval(rule))
+      .filter((interval): interval is MinuteInterval => interval !== null)
+      .map(interval => ({ start: interval.start + offset, end: interval.end + offset }));
+  }
+
+  private static resolveRules(rules: BookingRules): Required<BookingRules> {
+    const slotInterval = rules.slotInterval ?? 15;
+    if (slotInterval <= 0) {
+      throw new BadRequestError('Slot interval must be positive', { slotInterval });
+    }
+
+    return {
+      isBookable: rules.isBookable ?? false,
+      slotInterval,
+      minNotice: rules.minNotice ?? 0,
+      maxAdvance: rules.maxAdvance ?? 1440,
+      bufferTime: rules.bufferTime ?? 0,
+      preparationTime: rules.preparationTime ?? 0,
+      cleanupTime: rules.cleanupTime ?? 0,
+      // null means unlimited; only a missing value falls back to one at a time
+      maxConcurrent: rules.maxConcurrent === undefined ? 1 : rules.maxConcurrent,
+      duration: rules.duration ?? slotInterval,
+    };
+  }
+
+  private static parseDate(date: string): { year: number; month: number; day: number } {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    if (!match) {
+      throw new BadRequestError('Date must be in YYYY-MM-DD format', { date });
+    }
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+}
@@ -0,0 +1,91 @@
+import { Queue, QueueEntry } from '../types/queue';
+import { QueueEngine } from './queueEngine';
+import { NoShowSweeper, SweepSettings } from './sweeper';
+import { FakeClock } from './time';
+
+const start = new Date('2026-01-01T09:00:00Z');
+
+const queue: Queue = {
+  id: 'queue-1',
+  venueId: 'venue-1',
+  name: 'Front desk',
+  isActive: true,
+  isPaused: false,
+  currentPosition: 2,
+  estimatedWaitTime: 0,
+  averageServiceTime: 300,
+  lastServedPosition: 1,
+  createdAt: start,
+  updatedAt: start,
+};
+
+const entry = (id: string, position: number, overrides: Partial<QueueEntry>): QueueEntry => ({
+  id,
+  queueId: queue.id,
+  userId: `user-${id}`,
+  status: 'WAITING',
+  position,
+  vip: false,
+  createdAt: start,
+  updatedAt: start,
+  ...overrides,
+});
+
+const settings: SweepSettings = {
+  autoMarkNoShowAfterMinutes: 5,
+  requireConfirmation: true,
+  confirmationExpiryMinutes: 10,
+};
+
+describe('NoShowSweeper', () => {
+  let clock: FakeClock;
+  let entries: QueueEntry[];
+
+  beforeEach(() => {
+    clock = new FakeClock(start);
+    entries = [
+      entry('called', 1, { status: 'CALLED', calledAt: start }),
+      entry('unconfirmed', 2, { metadata: { confirmationRequestedAt: start.toISOString() } }),
+      entry('confirmed', 3, {
+        metadata: { confirmationRequestedAt: start.toISOString(), confirmedAt: start.toISOString() },
+      }),
+    ];
+  });
+
+  it('waits for each deadline and reports the next one', () => {
+    clock.advance(4, 'minutes');
+    const result = NoShowSweeper.sweep({ queueName: 'Front desk', entries, settings }, clock);
+
+    expect(result.transitions).toEqual([]);
+    expect(result.nextSweepAt).toEqual(new Date('2026-01-01T09:05:00Z'));
+  });
+
+  it('marks a called entry as a no-show once autoMarkNoShowAfterMinutes have passed', () => {
+    clock.advance(5, 'minutes');
+    const result = NoShowSweeper.sweep({ queueName: 'Front desk', entries, settings }, clock);
+
+    expect(result.transitions).toEqual([expect.objectContaining({
+      entryId: 'called',
+      from: 'CALLED',
+      to: 'NOSHOW',
+      reason: 'NO_SHOW_TIMEOUT',
+    })]);
+    expect(result.notifications.map(notification => notification.payload.type)).toEqual(['TURN_MISSED']);
+    expect(result.nextSweepAt).toEqual(new Date('2026-01-01T09:10:00Z'));
+  });
+
+  it('cancels unconfirmed entries and applies the transitions to the engine', () => {
+    clock.advance(10, 'minutes');
+    const engine = new QueueEngine(queue, entries, { now: () => clock.now() });
+    const result = NoShowSweeper.sweep({ queueName: 'Front desk', entries, settings }, clock);
+
+    expect(result.transitions.map(transition => [transition.entryId, transition.to]))
+      .toEqual([['called', 'NOSHOW'], ['unconfirmed', 'CANCELLED']]);
+    expect(result.nextSweepAt).toBeNull();
+
+    NoShowSweeper.apply(engine, result);
+    expect(engine.getEntries().map(e => e.status)).toEqual(['NOSHOW', 'CANCELLED', 'WAITING']);
+    expect(NoShowSweeper.sweep({ queueName: 'Front desk', entries: engine.getEntries(), settings }, clock).transitions)
+      .toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { QueueEntryStatus } from '../types/common';
+import { QueueEntry } from '../types/queue';
+import { NotificationPayload, NotificationUtils } from './notifications';
+import { QueueEngine } from './queueEngine';
+import { Clock, systemClock, TimeUtils } from './time';
+
+export interface SweepSettings {
+  /** Minutes a called entry has to show up before it becomes a no-show (0 disables) */
+  autoMarkNoShowAfterMinutes: number;
+  /** Whether waiting entries must confirm their place when asked */
+  requireConfirmation?: boolean;
+  /** Minutes a waiting entry has to confirm before it is cancelled */
+  confirmationExpiryMinutes?: number;
+}
+
+export interface SweepInput {
+  queueName: string;
+  entries: QueueEntry[];
+  settings: SweepSettings;
+}
+
+export type SweepReason = 'NO_SHOW_TIMEOUT' | 'CONFIRMATION_EXPIRED';
+
+export interface SweepTransition {
+  entryId: string;
+  userId: string;
+  from: QueueEntryStatus;
+  to: QueueEntryStatus;
+  reason: SweepReason;
+  /** When the deadline passed */
+  dueAt: Date;
+}
+
+export interface SweepNotification {
+  entryId: string;
+  userId: string;
+  payload: NotificationPayload;
+}
+
+export interface SweepResult {
+  transitions: SweepTransition[];
+  notifications: SweepNotification[];
+  /** Earliest upcoming deadline, so callers can schedule the next sweep */
+  nextSweepAt: Date | null;
+}
+
+/**
+ * Finds queue entries whose deadlines have passed.
+ *
+ * Called entries become no-shows `autoMarkNoShowAfterMinutes` after
+ * `calledAt`. When confirmation is required, waiting entries are cancelled
+ * `confirmationExpiryMinutes` after `metadata.confirmationRequestedAt` unless
+ * `metadata.confirmedAt` is set. The sweeper only decides; applying the
+ * transitions and sending the notifications is up to the caller.
+ */
+export class NoShowSweeper {
+  /**
+   * Evaluates the queue state against the clock
+   */
+  static sweep(input: SweepInput, clock: Clock = systemClock): SweepResult {
+    const { queueName, entries, settings } = input;
+    const now = clock.now();
+    const transitions: SweepTransition[] = [];
+    const notifications: SweepNotification[] = [];
+    let nextSweepAt: Date | null = null;
+
+    entries.forEach(entry => {
+      const deadline = this.getDeadline(entry, settings);
+      if (!deadline || !QueueEngine.canTransition(entry.status, deadline.to)) return;
+
+      if (deadline.dueAt > now) {
+        if (!nextSweepAt || deadline.dueAt < nextSweepAt) nextSweepAt = deadline.dueAt;
+        return;
+      }
+
+      transitions.push({
+        entryId: entry.id,
+        userId: entry.userId,
+        from: entry.status,
+        to: deadline.to,
+        reason: deadline.reason,
+        dueAt: deadline.dueAt,
+      });
+
+      const data = {
+        queueId: entry.queueId,
+        entryId: entry.id,
+        position: entry.position,
+        timestamp: now.toISOString(),
+      };
+      notifications.push({
+        entryId: entry.id,
+        userId: entry.userId,
+        payload: deadline.reason === 'NO_SHOW_TIMEOUT'
+          ? NotificationUtils.createTurnMissedNotification(queueName, data)
+          : NotificationUtils.createConfirmationExpiredNotification(queueName, data),
+      });
+    });
+
+    return { transitions, notifications, nextSweepAt };
+  }
+
+  /**
+   * Applies a sweep's transitions to a queue engine
+   * @returns The updated entries
+   */
+  static apply(engine: QueueEngine, result: SweepResult): QueueEntry[] {
+    return result.transitions.map(transition =>
+      transition.to === 'NOSHOW'
+        ? engine.markNoShow(transition.entryId)
+        : engine.cancel(transition.entryId, 'Confirmation expired')
+    );
+  }
+
+  private static getDeadline(
+    entry: QueueEntry,
+    settings: SweepSettings
+  ): { dueAt: Date; to: QueueEntryStatus; reason: SweepReason } | null {
+    if (entry.status === 'CALLED' && entry.calledAt && settings.autoMarkNoShowAfterMinutes > 0) {
+      return {
+        dueAt: TimeUtils.addTime(entry.calledAt, settings.autoMarkNoShowAfterMinutes, 'minutes'),
+        to: 'NOSHOW',
+        reason: 'NO_SHOW_TIMEOUT',
+      };
+    }
+
+    const requestedAt = entry.metadata?.confirmationRequestedAt;
+    if (
+      entry.status === 'WAITING' &&
+      settings.requireConfirmation &&
+      requestedAt &&
+      !entry.metadata?.confirmedAt
+    ) {
+      return {
+        dueAt: TimeUtils.addTime(requestedAt, settings.confirmationExpiryMinutes ?? 15, 'minutes'),
+        to: 'CANCELLED',
+        reason: 'CONFIRMATION_EXPIRED',
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+import { NotificationTemplateUtils } from './template';
+
+const paused = {
+  type: 'QUEUE_PAUSED' as const,
+  title: '{{queueName}}\npaused',
+  body: '<p>Hello {{name}},</p>\n<p>{{queueName}} is paused: {{reason}}</p>',
+};
+
+describe('NotificationTemplateUtils', () => {
+  it('escapes interpolated values in email bodies but keeps the template markup', () => {
+    const rendered = NotificationTemplateUtils.render(
+      paused,
+      { name: '<b>Sam</b>', queueName: 'Front desk', reason: 'Lunch & prayer\nback at 1' },
+      'email'
+    );
+
+    expect(rendered.title).toBe('Front desk paused');
+    expect(rendered.body).toBe(
+      '<p>Hello &lt;b&gt;Sam&lt;/b&gt;,</p>\n<p>Front desk is paused: Lunch &amp; prayer<br>back at 1</p>'
+    );
+  });
+
+  it('never expands placeholders inside values and reports missing ones', () => {
+    const rendered = NotificationTemplateUtils.render(
+      paused,
+      { name: '{{reason}}', queueName: 'Front desk' },
+      'push'
+    );
+
+    expect(rendered.body).toContain('Hello {{reason}},');
+    expect(rendered.missing).toEqual(['reason']);
+  });
+
+  it('rejects variables the notification type does not provide', () => {
+    expect(() => NotificationTemplateUtils.render({ ...paused, body: '{{counter}}' }, {}, 'push'))
+      .toThrow('Invalid notification template');
+    expect(NotificationTemplateUtils.extractVariables(paused.body)).toEqual(['name', 'queueName', 'reason']);
+  });
+
+  it('truncates SMS bodies past maxSmsSegments', () => {
+    const rendered = NotificationTemplateUtils.render(
+      { type: 'QUEUE_PAUSED', title: 'Paused', body: '{{reason}}' },
+      { reason: 'x'.repeat(400) },
+      'sms',
+      { maxSmsSegments: 2 }
+    );
+
+    expect(rendered.sms).toEqual({ encoding: 'GSM-7', length: 306, segments: 2, truncated: true });
+    expect(rendered.body.endsWith('...')).toBe(true);
+  });
+});
@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import {
+  createNotificationTemplateSchema,
+  notificationTemplateSchema,
+  PLACEHOLDER_PATTERN,
+  templateChannelSchema,
+  templateVariables,
+  updateNotificationTemplateSchema,
+} from '../schemas/template';
+import { Language } from '../types/common';
+import { ValidationError } from './errors';
+import { I18nUtils } from './i18n';
+import { NotificationPayload } from './notifications';
+import { validateWithZod } from './validation';
+
+export type TemplateChannel = z.infer<typeof templateChannelSchema>;
+export type NotificationTemplate = z.infer<typeof notificationTemplateSchema>;
+export type CreateNotificationTemplateInput = z.input<typeof createNotificationTemplateSchema>;
+export type UpdateNotificationTemplateInput = z.infer<typeof updateNotificationTemplateSchema>;
+
+export type TemplateVariableValues = Record<string, string | number | null | undefined>;
+
+export interface TemplateRenderOptions {
+  /** Most SMS segments a message may use before the body is truncated (default: 3) */
+  maxSmsSegments?: number;
+}
+
+export interface SmsInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  /** Length in encoding units; GSM-7 extension characters count twice */
+  length: number;
+  segments: number;
+  truncated: boolean;
+}
+
+export interface RenderedTemplate {
+  channel: TemplateChannel;
+  title: string;
+  /** Plain text, or HTML for email */
+  body: string;
+  /** Allowed variables the template uses but no value was given for; rendered empty */
+  missing: string[];
+  sms?: SmsInfo;
+}
+
+export interface TemplateSelectionCriteria {
+  type: NotificationTemplate['type'];
+  language: Language;
+  channel: TemplateChannel;
+  venueId?: string | null;
+}
+
+type TemplateContent = Pick<NotificationTemplate, 'type' | 'title' | 'body'> & { language?: Language };
+
+// GSM 03.38 basic character set, and the extension table characters that take two units
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+const SMS_LIMITS = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Values used when previewing a template without real data
+const SAMPLE_VALUES: Record<string, string | number> = {
+  name: 'Sara Ahmad',
+  queueName: 'General Services',
+  venueName: 'Main Branch',
+  instituteName: 'City Municipality',
+  queueNumber: 'A-042',
+  position: 3,
+  estimatedWaitTime: 12,
+  minutesUntilTurn: 5,
+  counter: 4,
+  travelMinutes: 15,
+  reason: 'Scheduled maintenance',
+  appointmentTime: '10:30',
+  location: 'Ground floor, hall B',
+};
+
+export class NotificationTemplateUtils {
+  /**
+   * Lists the variables a notification type's templates may use
+   */
+  static getAllowedVariables(type: NotificationTemplate['type']): string[] {
+    return templateVariables[type].slice();
+  }
+
+  /**
+   * Lists the distinct variables used in template text, in order of appearance
+   */
+  static extractVariables(text: string): string[] {
+    const variables: string[] = [];
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (!variables.includes(match[1])) variables.push(match[1]);
+    }
+
+    return variables;
+  }
+
+  /**
+   * Validates a new template, rejecting variables its type does not provide
+   */
+  static validateCreate(input: CreateNotificationTemplateInput): z.infer<typeof createNotificationTemplateSchema> {
+    return validateWithZod(createNotificationTemplateSchema, input, 'Invalid notification template');
+  }
+
+  /**
+   * Applies an update to a stored template and validates the result
+   */
+  static applyUpdate(
+    template: NotificationTemplate,
+    update: UpdateNotificationTemplateInput,
+    now: Date = new Date()
+  ): NotificationTemplate {
+    const changes = validateWithZod(updateNotificationTemplateSchema, update, 'Invalid notification template');
+    const { id, ...fields } = changes;
+
+    return validateWithZod(
+      notificationTemplateSchema,
+      { ...template, ...fields, updatedAt: now.toISOString() },
+      'Invalid notification template'
+    );
+  }
+
+  /**
+   * Renders a template for a channel. Values are inserted in a single pass,
+   * so placeholders inside values are never expanded, and are escaped for
+   * the channel: HTML for email bodies, single lines for titles, and no
+   * control characters anywhere. Email bodies are HTML, so only the values
+   * are escaped and the template's own markup is kept. SMS bodies are
+   * measured in segments and truncated past `maxSmsSegments`.
+   */
+  static render(
+    template: TemplateContent,
+    variables: TemplateVariableValues,
+    channel: TemplateChannel,
+    options: TemplateRenderOptions = {}
+  ): RenderedTemplate {
+    this.assertKnownVariables(template);
+
+    const language = template.language || 'en';
+    const missing: string[] = [];
+    const interpolate = (text: string, escape: (value: string) => string = value => value) => text.replace(
+      new RegExp(PLACEHOLDER_PATTERN.source, 'g'),
+      (_, name: string) => {
+        const value = variables[name];
+        if (value === null || value === undefined || value === '') {
+          if (!missing.includes(name)) missing.push(name);
+          return '';
+        }
+        const formatted = typeof value === 'number' ? I18nUtils.formatNumber(value, language) : value;
+        return escape(I18nUtils.isolate(this.stripControlCharacters(formatted), language));
+      }
+    );
+
+    const title = interpolate(template.title).replace(/\s*[\r\n]+\s*/g, ' ').trim();
+
+    if (channel === 'email') {
+      const body = interpolate(template.body, value => this.escapeHtml(value).replace(/\r?\n/g, '<br>')).trim();
+      return { channel, title, body, missing };
+    }
+
+    const body = interpolate(template.body).trim();
+
+    if (channel === 'sms') {
+      const sms = this.fitSms(body, options.maxSmsSegments ?? 3);
+      return { channel, title, body: sms.text, missing, sms: sms.info };
+    }
+
+    return { channel, title, body, missing };
+  }
+
+  /**
+   * Renders a template with sample values, for editors to check it before saving
+   */
+  static preview(
+    template: TemplateContent,
+    channel: TemplateChannel,
+    overrides: TemplateVariableValues = {},
+    options: TemplateRenderOptions = {}
+  ): RenderedTemplate {
+    return this.render(template, { ...SAMPLE_VALUES, ...overrides }, channel, options);
+  }
+
+  /**
+   * Renders a template into a notification payload
+   */
+  static toPayload(
+    template: TemplateContent,
+    variables: TemplateVariableValues,
+    channel: TemplateChannel,
+    data: Record<string, any> = {}
+  ): NotificationPayload {
+    const rendered = this.render(template, variables, channel);
+
+    return {
+      type: template.type,
+      title: rendered.title,
+      message: rendered.body,
+      data: { ...data, type: template.type },
+    };
+  }
+
+  /**
+   * Picks the template to use for a notification: an active one for the
+   * type, preferring the requested language over English, a venue's own
+   * template over the institute's, and a channel-specific one over one for
+   * every channel. Returns null when the built-in messages should be used.
+   */
+  static selectTemplate(
+    templates: NotificationTemplate[],
+    criteria: TemplateSelectionCriteria
+  ): NotificationTemplate | null {
+    const candidates = templates.filter(template =>
+      template.isActive &&
+      template.type === criteria.type &&
+      (template.channel === null || template.channel === criteria.channel) &&
+      (template.venueId === null || template.venueId === criteria.venueId)
+    );
+
+    const languages: Language[] = criteria.language === 'en' ? ['en'] : [criteria.language, 'en'];
+
+    for (const language of languages) {
+      let best: NotificationTemplate | null = null;
+      let bestScore = -1;
+
+      candidates.filter(template => template.language === language).forEach(template => {
+        const score = (template.venueId !== null ? 2 : 0) + (template.channel !== null ? 1 : 0);
+        if (score > bestScore) {
+          best = template;
+          bestScore = score;
+        }
+      });
+
+      if (best) return best;
+    }
+
+    return null;
+  }
+
+  /**
+   * Measures an SMS body in the cheapest encoding that can carry it
+   */
+  static measureSms(text: string): Omit<SmsInfo, 'truncated'> {
+    const encoding = this.isGsm7(text) ? 'GSM-7' : 'UCS-2';
+    const length = encoding === 'GSM-7'
+      ? Array.from(text).reduce((sum, char) => sum + (GSM_EXTENDED.includes(char) ? 2 : 1), 0)
+      : text.length; // UTF-16 code units
+    const limits = SMS_LIMITS[encoding];
+    const segments = length === 0 ? 0 : length <= limits.single ? 1 : Math.ceil(length / limits.multipart);
+
+    return { encoding, length, segments };
+  }
+
+  private static fitSms(text: string, maxSegments: number): { text: string; info: SmsInfo } {
+    const measured = this.measureSms(text);
+    if (measured.segments <= maxSegments) return { text, info: { ...measured, truncated: false } };
+
+    const limits = SMS_LIMITS[measured.encoding];
+    const budget = maxSegments <= 1 ? limits.single : limits.multipart * maxSegments;
+    const ellipsis = measured.encoding === 'GSM-7' ? '...' : '…';
+    const chars = Array.from(text);
+
+    // Drop characters until the text and ellipsis fit; never split a surrogate pair
+    let end = chars.length;
+    let truncated = text;
+    do {
+      end--;
+      truncated = chars.slice(0, end).join('').replace(/\s+$/, '') + ellipsis;
+    } while (end > 0 && this.measureSms(truncated).length > budget);
+
+    return { text: truncated, info: { ...this.measureSms(truncated), truncated: true } };
+  }
+
+  private static assertKnownVariables(template: TemplateContent): void {
+    const allowed = templateVariables[template.type];
+    const errors = (['title', 'body'] as const).reduce((list, field) => {
+      this.extractVariables(template[field])
+        .filter(name => !allowed.includes(name))
+        .forEach(name => list.push({ field, message: `Unknown variable {{${name}}} for ${template.type} templates` }));
+      return list;
+    }, [] as { field: string; message: string }[]);
+
+    if (errors.length) throw new ValidationError('Invalid notification template', errors);
+  }
+
+  private static isGsm7(text: string): boolean {
+    return Array.from(text).every(char => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+  }
+
+  private static escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+  }
+
+  private static stripControlCharacters(text: string): string {
+    // Keeps tabs and line breaks; titles flatten line breaks separately
+    return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+  }
+}
@@ -0,0 +1,59 @@
+import { NotificationPayload } from './notifications';
+import { NotificationThrottler } from './throttle';
+import { FakeClock } from './time';
+
+const moved = (position?: unknown, estimatedWaitTime?: number): NotificationPayload => ({
+  type: 'POSITION_CHANGED',
+  title: 'Queue update',
+  message: `You are now number ${position}`,
+  data: { queueId: 'queue-1', position, estimatedWaitTime },
+});
+
+describe('NotificationThrottler', () => {
+  let clock: FakeClock;
+  let throttler: NotificationThrottler;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-01-01T09:00:00Z');
+    throttler = new NotificationThrottler({ windowSeconds: 60, minPositionChange: 3 }, clock);
+  });
+
+  it('holds significant updates until the minimum interval has passed', () => {
+    expect(throttler.submit('user-1', moved(10))).toEqual({ action: 'SEND', reason: 'FIRST_UPDATE' });
+
+    clock.advance(10, 'seconds');
+    expect(throttler.submit('user-1', moved(7))).toEqual({
+      action: 'HOLD',
+      reason: 'COALESCED',
+      releaseAt: new Date('2026-01-01T09:01:00Z'),
+    });
+    clock.advance(10, 'seconds');
+    throttler.submit('user-1', moved(6));
+    expect(throttler.flush()).toEqual([]);
+
+    clock.set('2026-01-01T09:01:00Z');
+    expect(throttler.flush()).toEqual([{ userId: 'user-1', payload: moved(6) }]);
+    expect(throttler.getNextFlushAt()).toBeNull();
+  });
+
+  it('drops small moves and sends significant jumps once the window is over', () => {
+    throttler.submit('user-1', moved(10));
+    clock.advance(2, 'minutes');
+
+    expect(throttler.submit('user-1', moved(9))).toEqual({ action: 'DROP', reason: 'INSIGNIFICANT_CHANGE' });
+    expect(throttler.submit('user-1', moved(6))).toEqual({ action: 'SEND', reason: 'SIGNIFICANT_CHANGE' });
+    clock.advance(2, 'minutes');
+    expect(throttler.submit('user-1', moved(5))).toEqual({ action: 'DROP', reason: 'INSIGNIFICANT_CHANGE' });
+    expect(throttler.submit('user-1', moved(1))).toEqual({ action: 'SEND', reason: 'SIGNIFICANT_CHANGE' });
+  });
+
+  it('sends updates without a numeric position and keeps throttling later ones', () => {
+    throttler.submit('user-1', moved(10));
+    clock.advance(2, 'minutes');
+
+    expect(throttler.submit('user-1', moved())).toEqual({ action: 'SEND', reason: 'SIGNIFICANT_CHANGE' });
+    expect(throttler.submit('user-1', moved('soon'))).toEqual({ action: 'SEND', reason: 'SIGNIFICANT_CHANGE' });
+    expect(throttler.submit('user-1', moved(9))).toEqual({ action: 'DROP', reason: 'INSIGNIFICANT_CHANGE' });
+    expect(throttler.submit('user-1', moved(7))).toEqual({ action: 'SEND', reason: 'SIGNIFICANT_CHANGE' });
+  });
+});
@@ -0,0 +1,193 @@
+import { NotificationPayload, NotificationType } from './notifications';
+import { Clock, systemClock, TimeUtils } from './time';
+
+export interface ThrottleOptions {
+  /** Seconds after a position update during which later ones are held back (default: 60) */
+  windowSeconds?: number;
+  /** Positions a user must move for an update to be worth sending (default: 3) */
+  minPositionChange?: number;
+  /** Minutes the estimated wait must change for an update to be worth sending (default: 5) */
+  minWaitTimeChangeMinutes?: number;
+}
+
+export type ThrottleAction = 'SEND' | 'HOLD' | 'DROP';
+
+export type ThrottleReason =
+  | 'ALWAYS_SEND'
+  | 'FIRST_UPDATE'
+  | 'SIGNIFICANT_CHANGE'
+  | 'INSIGNIFICANT_CHANGE'
+  | 'COALESCED'
+  | 'DUPLICATE'
+  | 'NOT_THROTTLED';
+
+export interface ThrottleDecision {
+  action: ThrottleAction;
+  reason: ThrottleReason;
+  /** When a held update will be released by `flush` */
+  releaseAt?: Date;
+}
+
+export interface ReleasedNotification {
+  userId: string;
+  payload: NotificationPayload;
+}
+
+interface PositionState {
+  position: number;
+  estimatedWaitTime?: number;
+  sentAt: number;
+  pending?: { payload: NotificationPayload; releaseAt: number };
+}
+
+// Turn alerts and queue state changes are never held back
+const ALWAYS_SEND: NotificationType[] = [
+  'YOUR_TURN_SOON',
+  'YOUR_TURN_NOW',
+  'LEAVE_NOW',
+  'TURN_MISSED',
+  'CONFIRMATION_EXPIRED',
+  'QUEUE_PAUSED',
+  'QUEUE_RESUMED',
+  'QUEUE_CLOSED',
+];
+
+/**
+ * Keeps position updates from flooding users in fast-moving queues.
+ *
+ * Notifications are keyed by user and queue (`data.queueId`, falling back
+ * to `data.queueName`). A `POSITION_CHANGED` update is dropped unless the
+ * user moved at least `minPositionChange` places or the estimated wait
+ * changed by `minWaitTimeChangeMinutes` since the last update they got;
+ * reaching the front (position 1 or next) always counts, and an update
+ * without a numeric `data.position` is sent without being recorded.
+ * Significant updates within `windowSeconds` of the last one are held, each
+ * replacing the one held before, until `flush` releases the latest. Turn
+ * alerts and queue state changes always pass and discard held updates.
+ * Other notifications only lose exact repeats within the window.
+ */
+export class NotificationThrottler {
+  private readonly positions = new Map<string, PositionState>();
+  private readonly recent = new Map<string, { signature: string; sentAt: number }>();
+  private readonly windowMs: number;
+  private readonly minPositionChange: number;
+  private readonly minWaitTimeChange: number; // seconds
+
+  constructor(options: ThrottleOptions = {}, private readonly clock: Clock = systemClock) {
+    this.windowMs = TimeUtils.toMilliseconds(options.windowSeconds ?? 60, 'seconds');
+    this.minPositionChange = options.minPositionChange ?? 3;
+    this.minWaitTimeChange = (options.minWaitTimeChangeMinutes ?? 5) * 60;
+  }
+
+  /**
+   * Decides whether a notification for a user goes out now
+   */
+  submit(userId: string, payload: NotificationPayload): ThrottleDecision {
+    const now = this.clock.now().getTime();
+    const key = this.getKey(userId, payload);
+
+    if (ALWAYS_SEND.includes(payload.type)) {
+      const state = this.positions.get(key);
+      if (state) delete state.pending;
+      return { action: 'SEND', reason: 'ALWAYS_SEND' };
+    }
+
+    if (payload.type !== 'POSITION_CHANGED') {
+      const signature = `${payload.type}|${payload.title}|${payload.message}`;
+      const last = this.recent.get(`${key}|${payload.type}`);
+      if (last && last.signature === signature && now - last.sentAt < this.windowMs) {
+        return { action: 'DROP', reason: 'DUPLICATE' };
+      }
+      this.recent.set(`${key}|${payload.type}`, { signature, sentAt: now });
+      return { action: 'SEND', reason: 'NOT_THROTTLED' };
+    }
+
+    const position = payload.data?.position;
+    if (typeof position !== 'number' || !isFinite(position)) {
+      // Without a position there is nothing to compare against, so send it but keep the last known one
+      return { action: 'SEND', reason: 'SIGNIFICANT_CHANGE' };
+    }
+
+    const estimatedWaitTime = payload.data?.estimatedWaitTime;
+    const state = this.positions.get(key);
+
+    if (!state) {
+      this.positions.set(key, { position, estimatedWaitTime, sentAt: now });
+      return { action: 'SEND', reason: 'FIRST_UPDATE' };
+    }
+
+    if (!this.isSignificant(state, position, estimatedWaitTime)) {
+      // Anything held is older than this update, so no longer worth sending either
+      delete state.pending;
+      return { action: 'DROP', reason: 'INSIGNIFICANT_CHANGE' };
+    }
+
+    if (now - state.sentAt < this.windowMs) {
+      state.pending = { payload, releaseAt: state.sentAt + this.windowMs };
+      return { action: 'HOLD', reason: 'COALESCED', releaseAt: new Date(state.pending.releaseAt) };
+    }
+
+    this.positions.set(key, { position, estimatedWaitTime, sentAt: now });
+    return { action: 'SEND', reason: 'SIGNIFICANT_CHANGE' };
+  }
+
+  /**
+   * Releases held updates whose window has passed; the caller sends them
+   */
+  flush(): ReleasedNotification[] {
+    const now = this.clock.now().getTime();
+    const released: ReleasedNotification[] = [];
+
+    this.positions.forEach((state, key) => {
+      if (!state.pending || state.pending.releaseAt > now) return;
+
+      const { payload } = state.pending;
+      this.positions.set(key, {
+        position: payload.data?.position,
+        estimatedWaitTime: payload.data?.estimatedWaitTime,
+        sentAt: now,
+      });
+      released.push({ userId: key.slice(0, key.indexOf('|')), payload });
+    });
+
+    return released;
+  }
+
+  /**
+   * Returns when the next held update is due, so callers can schedule `flush`
+   */
+  getNextFlushAt(): Date | null {
+    let next: number | null = null;
+    this.positions.forEach(state => {
+      if (state.pending && (next === null || state.pending.releaseAt < next)) {
+        next = state.pending.releaseAt;
+      }
+    });
+    return next === null ? null : new Date(next);
+  }
+
+  /**
+   * Forgets a user's history in a queue (e.g., once they leave it), or in all queues
+   */
+  reset(userId: string, queueKey?: string): void {
+    const prefix = queueKey === undefined ? `${userId}|` : `${userId}|${queueKey}`;
+    const matches = (key: string) => queueKey === undefined ? key.startsWith(prefix) : key === prefix;
+
+    Array.from(this.positions.keys()).filter(matches).forEach(key => this.positions.delete(key));
+    Array.from(this.recent.keys())
+      .filter(key => matches(key.slice(0, key.lastIndexOf('|'))))
+      .forEach(key => this.recent.delete(key));
+  }
+
+  private isSignificant(state: PositionState, position: number, estimatedWaitTime?: number): boolean {
+    if (position <= 1 && position !== state.position) return true;
+    if (Math.abs(state.position - position) >= this.minPositionChange) return true;
+
+    return estimatedWaitTime !== undefined && state.estimatedWaitTime !== undefined &&
+      Math.abs(state.estimatedWaitTime - estimatedWaitTime) >= this.minWaitTimeChange;
+  }
+
+  private getKey(userId: string, payload: NotificationPayload): string {
+    return `${userId}|${payload.data?.queueId ?? payload.data?.queueName ?? ''}`;
+  }
+}
@@ -1,5 +1,64 @@
+import { ValidationError } from './errors';
+import { I18nUtils, LocaleOptions } from './i18n';
+import { TimezoneUtils } from './timezone';
+
 type TimeUnit = 'milliseconds' | 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks';
 
+/**
+ * Islamic calendars supported by `Intl`; `islamic-umalqura` is the official Saudi calendar
+ */
+export type HijriCalendar = 'islamic-umalqura' | 'islamic-civil' | 'islamic-tbla' | 'islamic';
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1-12 (Muharram-Dhu al-Hijjah)
+  day: number;
+}
+
+export interface HijriOptions {
+  /** IANA timezone the date is read in (default: host local time) */
+  timezone?: string;
+  /** Calendar variant (default: islamic-umalqura) */
+  calendar?: HijriCalendar;
+}
+
+const hijriFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Source of the current time, injectable so time-driven logic can be tested
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock that only moves when told to
+ */
+export class FakeClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | string | number = 0) {
+    this.current = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date | string | number): void {
+    this.current = new Date(date).getTime();
+  }
+
+  advance(amount: number, unit: TimeUnit = 'milliseconds'): Date {
+    this.current += TimeUtils.toMilliseconds(amount, unit);
+    return this.now();
+  }
+}
+
 export class TimeUtils {
   private static readonly MS_IN_SECOND = 1000;
   private static readonly MS_IN_MINUTE = 60 * TimeUtils.MS_IN_SECOND;
@@ -31,27 +90,32 @@ export class TimeUtils {
 
   /**
    * Formats a duration in milliseconds to a human-readable string
+   * (e.g., "2h 30m", or "2 س 30 د" in Arabic)
    */
-  static formatDuration(ms: number, precision: number = 2): string {
-    if (ms < 1000) return `${ms}ms`;
+  static formatDuration(ms: number, precision: number = 2, options: LocaleOptions = {}): string {
+    const locale = I18nUtils.toLocaleTag(options);
+    const unit = (value: number, name: string) =>
+      I18nUtils.formatNumber(value, locale, { style: 'unit', unit: name, unitDisplay: 'narrow' });
+
+    if (ms < 1000) return unit(ms, 'millisecond');
     
     const seconds = Math.floor(ms / 1000);
-    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 60) return unit(seconds, 'second');
     
     const minutes = Math.floor(seconds / 60);
     if (minutes < 60) {
       const remainingSeconds = seconds % 60;
       return remainingSeconds > 0 
-        ? `${minutes}m ${remainingSeconds}s` 
-        : `${minutes}m`;
+        ? `${unit(minutes, 'minute')} ${unit(remainingSeconds, 'second')}` 
+        : unit(minutes, 'minute');
     }
     
     const hours = Math.floor(minutes / 60);
     if (hours < 24) {
       const remainingMinutes = minutes % 60;
       return remainingMinutes > 0 
-        ? `${hours}h ${remainingMinutes}m` 
-        : `${hours}h`;
+        ? `${unit(hours, 'hour')} ${unit(remainingMinutes, 'minute')}` 
+        : unit(hours, 'hour');
     }
     
     const days = Math.floor(hours / 24);
@@ -59,24 +123,24 @@ export class TimeUtils {
     
     if (days < 7) {
       return remainingHours > 0 
-        ? `${days}d ${remainingHours}h` 
-        : `${days}d`;
+        ? `${unit(days, 'day')} ${unit(remainingHours, 'hour')}` 
+        : unit(days, 'day');
     }
     
     const weeks = Math.floor(days / 7);
     const remainingDays = days % 7;
     
     const parts: string[] = [];
-    if (weeks > 0) parts.push(`${weeks}w`);
-    if (remainingDays > 0) parts.push(`${remainingDays}d`);
+    if (weeks > 0) parts.push(unit(weeks, 'week'));
+    if (remainingDays > 0) parts.push(unit(remainingDays, 'day'));
     
     return parts.join(' ');
   }
 
   /**
-   * Formats a date to a relative time string (e.g., "2 hours ago")
+   * Formats a date to a relative time string (e.g., "2 hours ago", or "قبل ساعتين" in Arabic)
    */
-  static timeAgo(date: Date | string | number): string {
+  static timeAgo(date: Date | string | number, options: LocaleOptions = {}): string {
     const now = new Date();
     const then = new Date(date);
     const diffMs = now.getTime() - then.getTime();
@@ -88,12 +152,16 @@ export class TimeUtils {
     const months = Math.floor(days / 30);
     const years = Math.floor(days / 365);
     
-    if (years > 0) return `${years} year${years > 1 ? 's' : ''} ago`;
-    if (months > 0) return `${months} month${months > 1 ? 's' : ''} ago`;
-    if (days > 0) return `${days} day${days > 1 ? 's' : ''} ago`;
-    if (hours > 0) return `${hours} hour${hours > 1 ? 's' : ''} ago`;
-    if (minutes > 0) return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
-    return seconds <= 0 ? 'just now' : `${seconds} second${seconds === 1 ? '' : 's'} ago`;
+    const locale = I18nUtils.toLocaleTag(options);
+    
+    if (years > 0) return I18nUtils.formatRelativeTime(-years, 'year', locale);
+    if (months > 0) return I18nUtils.formatRelativeTime(-months, 'month', locale);
+    if (days > 0) return I18nUtils.formatRelativeTime(-days, 'day', locale);
+    if (hours > 0) return I18nUtils.formatRelativeTime(-hours, 'hour', locale);
+    if (minutes > 0) return I18nUtils.formatRelativeTime(-minutes, 'minute', locale);
+    return seconds <= 0
+      ? I18nUtils.t('time.justNow', {}, locale)
+      : I18nUtils.formatRelativeTime(-seconds, 'second', locale);
   }
 
   /**
@@ -108,9 +176,83 @@ export class TimeUtils {
       hour: '2-digit',
       minute: '2-digit',
       hour12: true,
-    }
+    },
+    localeOptions: LocaleOptions = {}
   ): string {
-    return new Date(date).toLocaleString('en-US', options);
+    return new Date(date).toLocaleString(this.getLocale(localeOptions), options);
+  }
+
+  /**
+   * Formats a date in the Hijri calendar (e.g., "Shawwal 1, 1447 AH")
+   */
+  static formatHijriDate(
+    date: Date | string | number,
+    options: Intl.DateTimeFormatOptions = {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    },
+    localeOptions: LocaleOptions = {},
+    calendar: HijriCalendar = 'islamic-umalqura'
+  ): string {
+    return new Date(date).toLocaleString(this.getLocale(localeOptions, calendar), options);
+  }
+
+  /**
+   * Returns the `Intl` locale for locale options, pinned to a calendar so that
+   * regional defaults (e.g., ar-SA using the Hijri calendar) do not leak in
+   */
+  static getLocale(options: LocaleOptions = {}, calendar: 'gregory' | HijriCalendar = 'gregory'): string {
+    return I18nUtils.toLocaleTag(options, calendar);
+  }
+
+  /**
+   * Converts a date to its Hijri year, month and day
+   */
+  static toHijri(date: Date | string | number, options: HijriOptions = {}): HijriDate {
+    const parts = this.getHijriFormatter(options).formatToParts(new Date(date));
+    const value = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value);
+
+    return { year: value('year'), month: value('month'), day: value('day') };
+  }
+
+  /**
+   * Converts a Hijri date to the start of the matching Gregorian day,
+   * in `options.timezone` or host local time
+   * @throws {ValidationError} If the day does not exist (e.g., the 30th of a 29-day month)
+   */
+  static fromHijri(hijri: HijriDate, options: HijriOptions = {}): Date {
+    const { year, month, day } = hijri;
+    const invalid = () => new ValidationError('Invalid Hijri date', [
+      { field: 'hijriDate', message: `${year}-${month}-${day} does not exist in the ${options.calendar || 'islamic-umalqura'} calendar` },
+    ]);
+    if (!Number.isInteger(year) || year < 1 || month < 1 || month > 12 || day < 1 || day > 30) {
+      throw invalid();
+    }
+
+    // Hijri day count as a mean-length estimate, measured from 1 Muharram 1 AH
+    const count = (h: HijriDate) => (h.year - 1) * 354.36667 + (h.month - 1) * 29.53059 + h.day;
+    const utcOptions = { calendar: options.calendar, timezone: 'Etc/UTC' };
+    const epoch = Date.UTC(622, 6, 19, 12);
+    let estimate = epoch + Math.round(count(hijri) - 1) * this.MS_IN_DAY;
+    estimate += Math.round(count(hijri) - count(this.toHijri(estimate, utcOptions))) * this.MS_IN_DAY;
+
+    for (let offset = 0; offset <= 3; offset++) {
+      for (const candidate of [estimate + offset * this.MS_IN_DAY, estimate - offset * this.MS_IN_DAY]) {
+        const found = this.toHijri(candidate, utcOptions);
+        if (found.year !== year || found.month !== month || found.day !== day) continue;
+
+        const gregorian = new Date(candidate);
+        return options.timezone
+          ? TimezoneUtils.zonedTimeToDate(
+            gregorian.getUTCFullYear(), gregorian.getUTCMonth() + 1, gregorian.getUTCDate(), 0, options.timezone
+          )
+          : new Date(gregorian.getUTCFullYear(), gregorian.getUTCMonth(), gregorian.getUTCDate());
+      }
+    }
+
+    throw invalid();
   }
 
   /**
@@ -321,4 +463,20 @@ export class TimeUtils {
     
     return totalMs || 0;
   }
+
+  private static getHijriFormatter(options: HijriOptions): Intl.DateTimeFormat {
+    const calendar = options.calendar || 'islamic-umalqura';
+    const key = `${calendar}|${options.timezone || ''}`;
+    let formatter = hijriFormatters.get(key);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat(this.getLocale({}, calendar), {
+        timeZone: options.timezone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+      });
+      hijriFormatters.set(key, formatter);
+    }
+    return formatter;
+  }
 }
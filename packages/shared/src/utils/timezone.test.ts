@@ -0,0 +1,56 @@
+import { updateVenueSchema } from '../schemas/venue';
+import { ValidationError } from './errors';
+import { TimezoneUtils } from './timezone';
+
+describe('TimezoneUtils', () => {
+  it('reads wall-clock parts and offsets in a timezone', () => {
+    // Sunday 22:00 UTC is Monday 01:00 in Riyadh
+    expect(TimezoneUtils.getZonedParts('2026-03-01T22:00:00Z', 'Asia/Riyadh'))
+      .toEqual({ year: 2026, month: 3, day: 2, hour: 1, minute: 0, second: 0, dayOfWeek: 1 });
+    expect(TimezoneUtils.formatZonedDate('2026-03-01T22:00:00Z', 'Asia/Riyadh')).toBe('2026-03-02');
+    expect(TimezoneUtils.getOffsetMinutes('2026-01-15T12:00:00Z', 'Asia/Riyadh')).toBe(180);
+    expect(TimezoneUtils.getOffsetMinutes('2026-01-15T12:00:00Z', 'America/New_York')).toBe(-300);
+    expect(TimezoneUtils.getOffsetMinutes('2026-07-15T12:00:00Z', 'America/New_York')).toBe(-240);
+  });
+
+  it('converts wall-clock times to instants and rolls minutes past midnight over', () => {
+    expect(TimezoneUtils.zonedTimeToDate(2026, 3, 2, 9 * 60, 'Asia/Riyadh').toISOString())
+      .toBe('2026-03-02T06:00:00.000Z');
+    expect(TimezoneUtils.zonedTimeToDate(2026, 3, 2, 26 * 60, 'Asia/Riyadh').toISOString())
+      .toBe('2026-03-02T23:00:00.000Z');
+  });
+
+  it('moves times skipped by a DST change past the jump', () => {
+    // New York skips 02:00-03:00 on 2026-03-08; 02:30 EST would be 03:30 EDT
+    expect(TimezoneUtils.zonedTimeToDate(2026, 3, 8, 2 * 60 + 30, 'America/New_York').toISOString())
+      .toBe('2026-03-08T07:30:00.000Z');
+    expect(TimezoneUtils.zonedTimeToDate(2026, 3, 8, 3 * 60, 'America/New_York').toISOString())
+      .toBe('2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves times repeated by a DST change to their first occurrence', () => {
+    // New York repeats 01:00-02:00 on 2026-11-01; 01:30 EDT comes first
+    expect(TimezoneUtils.zonedTimeToDate(2026, 11, 1, 90, 'America/New_York').toISOString())
+      .toBe('2026-11-01T05:30:00.000Z');
+    expect(TimezoneUtils.zonedTimeToDate(2026, 11, 1, 3 * 60, 'America/New_York').toISOString())
+      .toBe('2026-11-01T08:00:00.000Z');
+  });
+
+  it('rejects malformed and unknown timezones', () => {
+    expect(TimezoneUtils.validateTimezone('Asia/Riyadh')).toBe('Asia/Riyadh');
+    expect(() => TimezoneUtils.validateTimezone('riyadh')).toThrow(ValidationError);
+    expect(() => TimezoneUtils.validateTimezone('Mars/Olympus_Mons')).toThrow('Invalid timezone');
+    expect(TimezoneUtils.isKnownTimezone('America/Argentina/Buenos_Aires')).toBe(true);
+    expect(TimezoneUtils.isKnownTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('validates venue timezones in the venue schemas', () => {
+    expect(updateVenueSchema.parse({ timezone: 'Asia/Riyadh' }).timezone).toBe('Asia/Riyadh');
+    expect(updateVenueSchema.parse({}).timezone).toBeUndefined();
+
+    const unknown = updateVenueSchema.safeParse({ timezone: 'Mars/Olympus_Mons' });
+    expect(!unknown.success && unknown.error.issues[0])
+      .toMatchObject({ path: ['timezone'], message: 'Unknown timezone: Mars/Olympus_Mons' });
+    expect(updateVenueSchema.safeParse({ timezone: 'GMT+3' }).success).toBe(false);
+  });
+});
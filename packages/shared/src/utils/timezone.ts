@@ -0,0 +1,131 @@
+import { timezoneSchema } from '../schemas/common';
+import { ValidationError } from './errors';
+import { validateWithZod } from './validation';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0-6 (Sunday-Saturday)
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock conversions for IANA timezones, built on `Intl.DateTimeFormat`
+ */
+export class TimezoneUtils {
+  /**
+   * Validates an IANA timezone name against `timezoneSchema` and the runtime's timezone data
+   * @throws {ValidationError} If the name is malformed or unknown
+   */
+  static validateTimezone(timezone: string): string {
+    validateWithZod(timezoneSchema, timezone, 'Invalid timezone');
+
+    if (!this.isKnownTimezone(timezone)) {
+      throw new ValidationError('Invalid timezone', [
+        { field: 'timezone', message: `Unknown timezone: ${timezone}` },
+      ]);
+    }
+
+    return timezone;
+  }
+
+  /**
+   * Checks whether the runtime has data for a timezone
+   */
+  static isKnownTimezone(timezone: string): boolean {
+    try {
+      this.getFormatter(timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the wall-clock date and time of an instant in a timezone
+   */
+  static getZonedParts(date: Date | string | number, timezone: string): ZonedDateParts {
+    const parts = this.getFormatter(timezone).formatToParts(new Date(date));
+    const value = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value);
+
+    const year = value('year');
+    const month = value('month');
+    const day = value('day');
+
+    return {
+      year,
+      month,
+      day,
+      hour: value('hour') % 24, // some engines format midnight as 24
+      minute: value('minute'),
+      second: value('second'),
+      dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    };
+  }
+
+  /**
+   * Returns the UTC offset of a timezone at an instant, in minutes (e.g., 180 for Asia/Riyadh)
+   */
+  static getOffsetMinutes(date: Date | string | number, timezone: string): number {
+    const instant = Math.floor(new Date(date).getTime() / 1000) * 1000;
+    const parts = this.getZonedParts(instant, timezone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return Math.round((asUtc - instant) / 60000);
+  }
+
+  /**
+   * Converts a wall-clock time in a timezone to an instant.
+   * Minutes past 1440 roll over into the following days. Wall-clock times
+   * repeated by a DST change resolve to their first occurrence, and times
+   * skipped by one resolve to the same distance past the jump.
+   * @param year Full year
+   * @param month 1-12
+   * @param day Day of the month
+   * @param minutes Minutes since midnight
+   * @param timezone IANA timezone
+   */
+  static zonedTimeToDate(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+    const DAY = 86400000;
+
+    // Offsets either side of any transition near this wall-clock time
+    const offsetBefore = this.getOffsetMinutes(wallClock - DAY, timezone);
+    const offsetAfter = this.getOffsetMinutes(wallClock + DAY, timezone);
+    const candidates = [wallClock - offsetBefore * 60000, wallClock - offsetAfter * 60000]
+      .filter(instant => instant + this.getOffsetMinutes(instant, timezone) * 60000 === wallClock);
+
+    return new Date(candidates.length ? Math.min(...candidates) : wallClock - offsetBefore * 60000);
+  }
+
+  /**
+   * Formats an instant's wall-clock date in a timezone as YYYY-MM-DD
+   */
+  static formatZonedDate(date: Date | string | number, timezone: string): string {
+    const { year, month, day } = this.getZonedParts(date, timezone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private static getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+}
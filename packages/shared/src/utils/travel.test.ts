@@ -0,0 +1,69 @@
+import { FakeClock } from './time';
+import { LeaveNowInput, LeaveNowScheduler } from './travel';
+
+const venue = { lat: 24.7136, lng: 46.6753 };
+// About a kilometre north of the venue, roughly a 15 minute walk
+const home = { lat: 24.7219, lng: 46.6753 };
+
+const input = (overrides: Partial<LeaveNowInput> = {}): LeaveNowInput => ({
+  entryId: 'entry-1',
+  userId: 'user-1',
+  queueName: 'Front desk',
+  status: 'WAITING',
+  position: 6,
+  averageServiceTime: 300,
+  origin: home,
+  destination: venue,
+  mode: 'walk',
+  ...overrides,
+});
+
+describe('LeaveNowScheduler', () => {
+  let clock: FakeClock;
+  let scheduler: LeaveNowScheduler;
+
+  beforeEach(() => {
+    clock = new FakeClock('2026-03-02T09:00:00Z');
+    scheduler = new LeaveNowScheduler({}, clock);
+  });
+
+  it('raises the alert once the leave-by time comes', () => {
+    const first = scheduler.update(input());
+    expect(first.notification).toBeNull();
+    expect(first.travelTime).toBeGreaterThan(800);
+    expect(first.leaveAt!.getTime()).toBeGreaterThan(clock.now().getTime());
+
+    clock.set(first.leaveAt!.getTime() - 60 * 1000);
+    expect(scheduler.update(input({ position: 5 })).notification).toBeNull();
+
+    clock.set(first.leaveAt!);
+    const due = scheduler.update(input({ position: 4 }));
+    expect(due.leaveAt!.getTime()).toBeLessThanOrEqual(clock.now().getTime());
+    expect(due.notification).toMatchObject({
+      type: 'LEAVE_NOW',
+      data: { entryId: 'entry-1', travelMode: 'walk', timestamp: clock.now().toISOString() },
+    });
+  });
+
+  it('alerts each entry once and restores that from a snapshot', () => {
+    expect(scheduler.update(input({ position: 1 })).notification).not.toBeNull();
+    expect(scheduler.update(input({ position: 1 })).notification).toBeNull();
+    expect(scheduler.getNotifiedEntryIds()).toEqual(['entry-1']);
+
+    const restored = new LeaveNowScheduler({ notifiedEntryIds: scheduler.getNotifiedEntryIds() }, clock);
+    expect(restored.update(input({ position: 1 })).notification).toBeNull();
+    expect(restored.update(input({ entryId: 'entry-2', position: 1 })).notification).not.toBeNull();
+  });
+
+  it('does not alert entries that were served or cancelled, or users already there', () => {
+    expect(scheduler.update(input({ position: 1, status: 'SERVED' }))).toEqual({
+      entryId: 'entry-1',
+      travelTime: null,
+      leaveAt: null,
+      notification: null,
+    });
+    expect(scheduler.update(input({ position: 1, status: 'CANCELLED' })).notification).toBeNull();
+    expect(scheduler.update(input({ position: 1, origin: venue }))).toMatchObject({ travelTime: 0, notification: null });
+    expect(scheduler.getNotifiedEntryIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { Coordinates, QueueEntryStatus } from '../types/common';
+import { GeoUtils } from './geo';
+import { LocaleOptions } from './i18n';
+import { NotificationPayload, NotificationUtils } from './notifications';
+import { QueueUtils } from './queue';
+import { Clock, systemClock } from './time';
+
+export type TravelMode = 'walk' | 'drive' | 'transit';
+
+export interface TravelSpeed {
+  /** Average speed in km/h */
+  speedKmh: number;
+  /** Ratio of route length to straight-line distance */
+  detourFactor: number;
+  /** Fixed seconds added to every trip (e.g., parking, waiting for a bus) */
+  overheadSeconds: number;
+}
+
+export type TravelSpeedModel = Record<TravelMode, TravelSpeed>;
+
+export const DEFAULT_TRAVEL_SPEEDS: TravelSpeedModel = {
+  walk: { speedKmh: 4.8, detourFactor: 1.3, overheadSeconds: 0 },
+  drive: { speedKmh: 30, detourFactor: 1.4, overheadSeconds: 5 * 60 },
+  transit: { speedKmh: 20, detourFactor: 1.3, overheadSeconds: 10 * 60 },
+};
+
+export class TravelTimeUtils {
+  /**
+   * Estimates the travel time between two points from their straight-line distance
+   * @returns Travel time in seconds
+   */
+  static estimateTravelTime(
+    from: Coordinates,
+    to: Coordinates,
+    mode: TravelMode,
+    speeds: TravelSpeedModel = DEFAULT_TRAVEL_SPEEDS
+  ): number {
+    const { speedKmh, detourFactor, overheadSeconds } = speeds[mode];
+    const distance = GeoUtils.calculateDistance(from, to, 'km') * detourFactor;
+    return Math.round((distance / speedKmh) * 3600 + overheadSeconds);
+  }
+}
+
+export interface LeaveNowOptions {
+  /** Overrides of the default travel speeds per mode */
+  speeds?: Partial<TravelSpeedModel>;
+  /** Meters from the venue within which the user counts as already there (default: 150) */
+  arrivalRadius?: number;
+  /** Buffer settings passed to `QueueUtils.calculateRecommendedLeaveTime` */
+  bufferTime?: number;
+  minBufferTime?: number;
+  maxBufferTime?: number;
+  /** Entries already alerted, e.g. restored after a restart from `getNotifiedEntryIds` */
+  notifiedEntryIds?: string[];
+}
+
+export interface LeaveNowInput {
+  entryId: string;
+  userId: string;
+  queueName: string;
+  /** Entries that are no longer waiting or called are never alerted */
+  status?: QueueEntryStatus;
+  position: number;
+  /** Average service time per customer in seconds */
+  averageServiceTime: number;
+  varianceServiceTime?: number;
+  /** The user's last known location */
+  origin: Coordinates | null;
+  /** The venue's location */
+  destination: Coordinates;
+  mode: TravelMode;
+  locale?: LocaleOptions;
+  data?: Record<string, any>;
+}
+
+export interface LeaveNowSchedule {
+  entryId: string;
+  /** Seconds, or null without a known origin */
+  travelTime: number | null;
+  /** When the user should set off; null when unknown or already at the venue */
+  leaveAt: Date | null;
+  /** The alert to send now, if this update made it due */
+  notification: NotificationPayload | null;
+}
+
+/**
+ * Works out when each queue entry's holder has to set off, and raises a
+ * `LEAVE_NOW` alert once that time comes.
+ *
+ * Call `update` whenever the queue moves or the user's location changes.
+ * Each entry is alerted at most once; users already within `arrivalRadius`
+ * of the venue and entries that were served or left the queue are not
+ * alerted.
+ */
+export class LeaveNowScheduler {
+  private readonly speeds: TravelSpeedModel;
+  private readonly notified: Set<string>;
+
+  constructor(private readonly options: LeaveNowOptions = {}, private readonly clock: Clock = systemClock) {
+    this.speeds = {
+      walk: { ...DEFAULT_TRAVEL_SPEEDS.walk, ...options.speeds?.walk },
+      drive: { ...DEFAULT_TRAVEL_SPEEDS.drive, ...options.speeds?.drive },
+      transit: { ...DEFAULT_TRAVEL_SPEEDS.transit, ...options.speeds?.transit },
+    };
+    this.notified = new Set(options.notifiedEntryIds || []);
+  }
+
+  /**
+   * Recomputes an entry's leave-at time and returns the alert if it is now due
+   */
+  update(input: LeaveNowInput): LeaveNowSchedule {
+    const { entryId, origin, destination } = input;
+    const none = { entryId, travelTime: null, leaveAt: null, notification: null };
+
+    if (!origin || (input.status && !QueueUtils.isActiveStatus(input.status))) return none;
+
+    if (GeoUtils.calculateDistance(origin, destination, 'm') <= (this.options.arrivalRadius ?? 150)) {
+      return { ...none, travelTime: 0 };
+    }
+
+    const travelTime = TravelTimeUtils.estimateTravelTime(origin, destination, input.mode, this.speeds);
+
+    const now = this.clock.now();
+    const { leaveAt } = QueueUtils.calculateRecommendedLeaveTime(
+      input.position,
+      input.averageServiceTime,
+      travelTime,
+      {
+        varianceServiceTime: input.varianceServiceTime,
+        bufferTime: this.options.bufferTime,
+        minBufferTime: this.options.minBufferTime,
+        maxBufferTime: this.options.maxBufferTime,
+        currentTime: now,
+      }
+    );
+
+    let notification: NotificationPayload | null = null;
+    if (leaveAt <= now && !this.notified.has(entryId)) {
+      this.notified.add(entryId);
+      notification = NotificationUtils.createLeaveNowNotification(
+        input.queueName,
+        Math.ceil(travelTime / 60),
+        { entryId, travelMode: input.mode, leaveAt: leaveAt.toISOString(), timestamp: now.toISOString(), ...input.data },
+        input.locale
+      );
+    }
+
+    return { entryId, travelTime, leaveAt, notification };
+  }
+
+  /**
+   * Checks whether an entry has been alerted
+   */
+  hasNotified(entryId: string): boolean {
+    return this.notified.has(entryId);
+  }
+
+  /**
+   * Returns the entries alerted so far, to persist and pass back as `notifiedEntryIds`
+   */
+  getNotifiedEntryIds(): string[] {
+    return Array.from(this.notified);
+  }
+
+  /**
+   * Forgets an entry once it has left the queue
+   */
+  forget(entryId: string): void {
+    this.notified.delete(entryId);
+  }
+}
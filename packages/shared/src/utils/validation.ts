@@ -7,6 +7,7 @@ import {
   paginationSchema,
   searchSchema,
 } from '../schemas/common';
+import { authConfigSchema } from '../schemas/auth';
 
 type ValidationErrorItem = {
   field: string;
@@ -36,6 +37,8 @@ export type PaginationInput = z.infer<typeof paginationSchema>;
 
 export type SearchInput = z.infer<typeof searchSchema>;
 
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+
 export const validatePhoneOrEmail = (input: string): 'phone' | 'email' => {
   if (input.includes('@')) {
     emailSchema.parse(input);
@@ -0,0 +1,139 @@
+import { createVisitItinerarySchema, visitItinerarySchema, visitProgressSchema } from '../schemas/visit';
+import { QueueEntry } from '../types/queue';
+import { VenueService } from '../types/venue';
+import { ConflictError, NotFoundError } from './errors';
+import { VisitItinerary, VisitItineraryUtils, VisitProgress, VisitStep } from './visit';
+
+const id = (n: number) => `11111111-1111-4111-8111-${String(n).padStart(12, '0')}`;
+const at = (time: string) => new Date(`2026-03-02T${time}:00Z`);
+
+const itinerary: VisitItinerary = visitItinerarySchema.parse({
+  id: id(1),
+  userId: id(2),
+  venueId: id(3),
+  steps: [
+    { id: id(10), serviceId: id(20), queueId: id(30), name: 'Registration' },
+    { id: id(11), serviceId: id(21), queueId: id(31), name: 'Triage', isOptional: true },
+    { id: id(12), serviceId: id(22), queueId: id(32), name: 'Doctor' },
+  ],
+  createdAt: '2026-03-02T08:00:00Z',
+  updatedAt: '2026-03-02T08:00:00Z',
+});
+
+const service = (n: number, averageServiceTime: number, currentQueueLength: number): VenueService => ({
+  id: id(n),
+  venueId: id(3),
+  name: `Service ${n}`,
+  averageServiceTime,
+  isActive: true,
+  priority: 0,
+  currentQueueLength,
+  createdAt: at('08:00'),
+  updatedAt: at('08:00'),
+});
+
+const services = [service(20, 120, 2), service(21, 300, 0), service(22, 600, 3)];
+
+describe('VisitItineraryUtils', () => {
+  let enqueued: VisitStep[];
+  const enqueue = (step: VisitStep): QueueEntry => {
+    enqueued.push(step);
+    return entry(`entry-${enqueued.length}`, step, 'WAITING');
+  };
+  const entry = (entryId: string, step: VisitStep, status: QueueEntry['status']): QueueEntry => ({
+    id: entryId,
+    queueId: step.queueId,
+    userId: itinerary.userId,
+    serviceId: step.serviceId,
+    status,
+    position: 1,
+    vip: false,
+    createdAt: at('09:00'),
+    updatedAt: at('09:00'),
+  });
+
+  const update = (
+    progress: VisitProgress,
+    entryId: string,
+    step: VisitStep,
+    status: QueueEntry['status'],
+    now?: Date
+  ) => VisitItineraryUtils.handleEntryUpdate(itinerary, progress, entry(entryId, step, status), enqueue, now);
+
+  beforeEach(() => {
+    enqueued = [];
+  });
+
+  it('moves through every step and enqueues the next one when a step is served', () => {
+    const [registration, triage, doctor] = itinerary.steps;
+    let progress = VisitItineraryUtils.createProgress(itinerary, at('09:00'));
+    progress = VisitItineraryUtils.start(itinerary, progress, enqueue, at('09:00'));
+
+    expect(progress).toMatchObject({ status: 'IN_PROGRESS', currentStepIndex: 0 });
+    expect(progress.steps[0]).toMatchObject({ status: 'QUEUED', queueEntryId: 'entry-1' });
+
+    progress = update(progress, 'entry-1', registration, 'CALLED', at('09:05'));
+    expect(progress.steps[0]).toMatchObject({ status: 'IN_SERVICE', startedAt: '2026-03-02T09:05:00.000Z' });
+
+    progress = update(progress, 'entry-1', registration, 'SERVED', at('09:07'));
+    expect(progress.steps.map(step => step.status)).toEqual(['COMPLETED', 'QUEUED', 'PENDING']);
+    expect(progress.currentStepIndex).toBe(1);
+
+    progress = update(progress, 'entry-2', triage, 'SERVED', at('09:15'));
+    progress = update(progress, 'entry-3', doctor, 'SERVED', at('09:40'));
+
+    expect(enqueued.map(step => step.name)).toEqual(['Registration', 'Triage', 'Doctor']);
+    expect(progress).toMatchObject({ status: 'COMPLETED', currentStepIndex: null, estimatedCompletionTime: null });
+    expect(visitProgressSchema.parse(progress)).toEqual(progress);
+    expect(() => VisitItineraryUtils.start(itinerary, progress, enqueue)).toThrow(ConflictError);
+  });
+
+  it('skips a missed optional step and cancels the visit on a missed required one', () => {
+    const [registration, triage, doctor] = itinerary.steps;
+    let progress = VisitItineraryUtils.start(itinerary, VisitItineraryUtils.createProgress(itinerary), enqueue);
+    progress = update(progress, 'entry-1', registration, 'SERVED');
+    progress = update(progress, 'entry-2', triage, 'NOSHOW');
+
+    expect(progress.steps.map(step => step.status)).toEqual(['COMPLETED', 'SKIPPED', 'QUEUED']);
+
+    progress = update(progress, 'entry-3', doctor, 'CANCELLED');
+    expect(progress).toMatchObject({ status: 'CANCELLED', currentStepIndex: null });
+    expect(progress.steps.map(step => step.status)).toEqual(['COMPLETED', 'SKIPPED', 'CANCELLED']);
+  });
+
+  it('rejects updates for entries that are not the current step', () => {
+    const progress = VisitItineraryUtils.start(itinerary, VisitItineraryUtils.createProgress(itinerary), enqueue);
+
+    expect(() => VisitItineraryUtils.handleEntryUpdate(
+      itinerary, progress, entry('other', itinerary.steps[0], 'SERVED'), enqueue
+    )).toThrow(NotFoundError);
+  });
+
+  it('adds up the remaining steps for the end-to-end estimate', () => {
+    const progress = VisitItineraryUtils.start(itinerary, VisitItineraryUtils.createProgress(itinerary), enqueue);
+    const current = { ...entry('entry-1', itinerary.steps[0], 'WAITING'), estimatedWaitTime: 240 };
+    const estimated = VisitItineraryUtils.estimateCompletion(itinerary, progress, services, current, at('09:00'));
+
+    // 240 + 120 for registration, 300 for triage and 3 * 600 + 600 for the doctor
+    expect(estimated).toMatchObject({
+      estimatedRemainingTime: 3060,
+      estimatedCompletionTime: '2026-03-02T09:51:00.000Z',
+    });
+  });
+});
+
+describe('visit schemas', () => {
+  it('fills step defaults and rejects duplicate or missing steps', () => {
+    expect(itinerary.steps[0]).toMatchObject({ isOptional: false, averageServiceTime: null });
+
+    const duplicate = visitItinerarySchema.safeParse({ ...itinerary, steps: [itinerary.steps[0], itinerary.steps[0]] });
+    expect(!duplicate.success && duplicate.error.issues[0])
+      .toMatchObject({ path: ['steps'], message: 'Step IDs must be unique' });
+
+    expect(createVisitItinerarySchema.safeParse({ venueId: id(3), steps: [] }).success).toBe(false);
+    expect(createVisitItinerarySchema.safeParse({
+      venueId: id(3),
+      steps: [{ serviceId: id(20), queueId: id(30), name: 'Registration', averageServiceTime: -5 }],
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import { QueueEntry } from '../types/queue';
+import { VenueService } from '../types/venue';
+import {
+  visitItinerarySchema,
+  visitProgressSchema,
+  visitStepProgressSchema,
+  visitStepSchema,
+} from '../schemas/visit';
+import { ConflictError, NotFoundError } from './errors';
+
+export type VisitItinerary = z.infer<typeof visitItinerarySchema>;
+
+export type VisitStep = z.infer<typeof visitStepSchema>;
+
+export type VisitStepProgress = z.infer<typeof visitStepProgressSchema>;
+
+export type VisitProgress = z.infer<typeof visitProgressSchema>;
+
+/**
+ * Puts the visitor in the queue for a step, e.g.
+ * `step => engines[step.queueId].join(userId, { serviceId: step.serviceId })`
+ */
+export type VisitStepEnqueuer = (step: VisitStep, itinerary: VisitItinerary) => QueueEntry;
+
+/**
+ * Drives a visitor through an ordered list of services in one venue
+ * (e.g., registration → triage → doctor → pharmacy).
+ *
+ * Progress objects are never mutated; every call returns a new one. When a
+ * step's queue entry is served, the visitor is enqueued for the next step.
+ * A no-show or cancellation skips an optional step and cancels the visit
+ * otherwise.
+ */
+export class VisitItineraryUtils {
+  /**
+   * Creates the initial progress for an itinerary
+   */
+  static createProgress(itinerary: VisitItinerary, now: Date = new Date()): VisitProgress {
+    return {
+      itineraryId: itinerary.id,
+      status: 'NOT_STARTED',
+      currentStepIndex: null,
+      steps: itinerary.steps.map(step => ({
+        stepId: step.id,
+        status: 'PENDING',
+        queueEntryId: null,
+        queuedAt: null,
+        startedAt: null,
+        completedAt: null,
+      })),
+      estimatedRemainingTime: 0,
+      estimatedCompletionTime: null,
+      updatedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Starts the visit by enqueueing the first step
+   */
+  static start(
+    itinerary: VisitItinerary,
+    progress: VisitProgress,
+    enqueue: VisitStepEnqueuer,
+    now: Date = new Date()
+  ): VisitProgress {
+    if (progress.status !== 'NOT_STARTED') {
+      throw new ConflictError('Visit has already started', { itineraryId: itinerary.id });
+    }
+    return this.enqueueStep(itinerary, { ...progress, status: 'IN_PROGRESS' }, 0, enqueue, now);
+  }
+
+  /**
+   * Applies a status change of the current step's queue entry
+   */
+  static handleEntryUpdate(
+    itinerary: VisitItinerary,
+    progress: VisitProgress,
+    entry: QueueEntry,
+    enqueue: VisitStepEnqueuer,
+    now: Date = new Date()
+  ): VisitProgress {
+    const index = progress.currentStepIndex;
+    if (index === null || progress.steps[index].queueEntryId !== entry.id) {
+      throw new NotFoundError('Queue entry is not the current step of this visit', {
+        itineraryId: itinerary.id,
+        entryId: entry.id,
+      });
+    }
+
+    const timestamp = now.toISOString();
+    const step = itinerary.steps[index];
+
+    switch (entry.status) {
+      case 'WAITING':
+        return progress;
+      case 'CALLED':
+        return this.updateStep(progress, index, { status: 'IN_SERVICE', startedAt: timestamp }, now);
+      case 'SERVED': {
+        const completed = this.updateStep(progress, index, { status: 'COMPLETED', completedAt: timestamp }, now);
+        return this.enqueueStep(itinerary, completed, index + 1, enqueue, now);
+      }
+      case 'NOSHOW':
+      case 'CANCELLED': {
+        if (step.isOptional) {
+          const skipped = this.updateStep(progress, index, { status: 'SKIPPED', completedAt: timestamp }, now);
+          return this.enqueueStep(itinerary, skipped, index + 1, enqueue, now);
+        }
+        const cancelled = this.updateStep(progress, index, { status: 'CANCELLED', completedAt: timestamp }, now);
+        return {
+          ...cancelled,
+          status: 'CANCELLED',
+          steps: cancelled.steps.map(stepProgress =>
+            stepProgress.status === 'PENDING' ? { ...stepProgress, status: 'CANCELLED' } : stepProgress
+          ),
+          currentStepIndex: null,
+          estimatedRemainingTime: 0,
+          estimatedCompletionTime: null,
+        };
+      }
+      default:
+        return progress;
+    }
+  }
+
+  /**
+   * Estimates the time left for the whole visit.
+   * The current step uses its queue entry's `estimatedWaitTime`; later steps
+   * assume the service's current queue length and average service time.
+   * @param itinerary The itinerary
+   * @param progress Current progress
+   * @param services Services of the venue
+   * @param currentEntry Queue entry of the current step, if known
+   * @param now Current time
+   */
+  static estimateCompletion(
+    itinerary: VisitItinerary,
+    progress: VisitProgress,
+    services: VenueService[],
+    currentEntry?: QueueEntry,
+    now: Date = new Date()
+  ): VisitProgress {
+    if (progress.status === 'COMPLETED' || progress.status === 'CANCELLED') {
+      return { ...progress, estimatedRemainingTime: 0, estimatedCompletionTime: null };
+    }
+
+    const servicesById = new Map(services.map(service => [service.id, service]));
+    const firstIndex = progress.currentStepIndex ?? 0;
+    let remaining = 0;
+
+    itinerary.steps.forEach((step, index) => {
+      const stepProgress = progress.steps[index];
+      if (index < firstIndex || stepProgress.status === 'COMPLETED' || stepProgress.status === 'SKIPPED') {
+        return;
+      }
+
+      const service = servicesById.get(step.serviceId);
+      const serviceTime = step.averageServiceTime ?? service?.averageServiceTime ?? 0;
+
+      if (index === progress.currentStepIndex && stepProgress.status === 'IN_SERVICE') {
+        const elapsed = stepProgress.startedAt
+          ? (now.getTime() - new Date(stepProgress.startedAt).getTime()) / 1000
+          : 0;
+        remaining += Math.max(0, serviceTime - elapsed);
+      } else if (index === progress.currentStepIndex && currentEntry?.estimatedWaitTime !== undefined) {
+        remaining += currentEntry.estimatedWaitTime + serviceTime;
+      } else {
+        remaining += (service?.currentQueueLength ?? 0) * serviceTime + serviceTime;
+      }
+    });
+
+    const estimatedRemainingTime = Math.round(remaining);
+    return {
+      ...progress,
+      estimatedRemainingTime,
+      estimatedCompletionTime: new Date(now.getTime() + estimatedRemainingTime * 1000).toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  }
+
+  private static enqueueStep(
+    itinerary: VisitItinerary,
+    progress: VisitProgress,
+    index: number,
+    enqueue: VisitStepEnqueuer,
+    now: Date
+  ): VisitProgress {
+    if (index >= itinerary.steps.length) {
+      return {
+        ...progress,
+        status: 'COMPLETED',
+        currentStepIndex: null,
+        estimatedRemainingTime: 0,
+        estimatedCompletionTime: null,
+        updatedAt: now.toISOString(),
+      };
+    }
+
+    const entry = enqueue(itinerary.steps[index], itinerary);
+    return {
+      ...this.updateStep(progress, index, {
+        status: 'QUEUED',
+        queueEntryId: entry.id,
+        queuedAt: now.toISOString(),
+      }, now),
+      currentStepIndex: index,
+    };
+  }
+
+  private static updateStep(
+    progress: VisitProgress,
+    index: number,
+    changes: Partial<VisitStepProgress>,
+    now: Date
+  ): VisitProgress {
+    return {
+      ...progress,
+      steps: progress.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+      updatedAt: now.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { QueueUtils } from './queue';
+import { WaitTimeEstimator } from './waitTime';
+
+describe('WaitTimeEstimator', () => {
+  it('returns pinned p10/p50/p90 bounds', () => {
+    const estimator = new WaitTimeEstimator({ seed: 42 });
+
+    expect(estimator.estimate(4, 300)).toEqual({ estimate: 1200, p10: 1046, p50: 1200, p90: 1354, standardDeviation: 120 });
+    expect(estimator.estimate(9, 240, 0.5)).toEqual({ estimate: 2160, p10: 1699, p50: 2160, p90: 2621, standardDeviation: 360 });
+    expect(estimator.estimate(0, 300)).toEqual({ estimate: 0, p10: 0, p50: 0, p90: 0, standardDeviation: 0 });
+  });
+
+  it('draws the same samples for the same seed', () => {
+    const draw = () => {
+      const estimator = new WaitTimeEstimator({ seed: 42 });
+      return [1, 2, 3, 4, 5].map(() => estimator.sample(4, 300));
+    };
+
+    expect(draw()).toEqual([1046, 1087, 1127, 1132, 963]);
+    expect(draw()).toEqual(draw());
+  });
+
+  it('keeps samples within the estimated bounds about 80% of the time', () => {
+    const estimator = new WaitTimeEstimator({ seed: 7 });
+    const { p10, p90 } = estimator.estimate(16, 180);
+    const samples = Array.from({ length: 2000 }, () => estimator.sample(16, 180));
+    const inside = samples.filter(sample => sample >= p10 && sample <= p90).length / samples.length;
+
+    expect(inside).toBeGreaterThan(0.77);
+    expect(inside).toBeLessThan(0.83);
+  });
+});
+
+describe('QueueUtils.calculateWaitTime', () => {
+  it('returns the median estimate for existing callers', () => {
+    expect(QueueUtils.calculateWaitTime(4, 300)).toBe(new WaitTimeEstimator().estimate(4, 300).p50);
+    expect(QueueUtils.calculateWaitTime(3, 200, 0)).toBe(600);
+    expect(QueueUtils.calculateWaitTime(0, 300)).toBe(0);
+    expect(QueueUtils.calculateWaitTime(-2, 300)).toBe(0);
+  });
+
+  it('stays within the range the old random variance produced', () => {
+    [[1, 60, 0.2], [5, 300, 0.2], [12, 450, 0.5]].forEach(([position, averageServiceTime, variance]) => {
+      const waitTime = QueueUtils.calculateWaitTime(position, averageServiceTime, variance);
+      const mean = position * averageServiceTime;
+
+      expect(waitTime).toBeGreaterThanOrEqual(Math.round(mean * (1 - variance)));
+      expect(waitTime).toBeLessThanOrEqual(Math.round(mean * (1 + variance)));
+      expect(QueueUtils.calculateWaitTime(position, averageServiceTime, variance)).toBe(waitTime);
+    });
+  });
+});
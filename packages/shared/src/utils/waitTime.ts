@@ -0,0 +1,81 @@
+import { RandomSource, RandomUtils } from './random';
+
+export interface WaitTimeEstimate {
+  /** Point estimate in seconds (same as p50) */
+  estimate: number;
+  /** 10th percentile in seconds */
+  p10: number;
+  /** Median in seconds */
+  p50: number;
+  /** 90th percentile in seconds */
+  p90: number;
+  /** Standard deviation of the total wait in seconds */
+  standardDeviation: number;
+}
+
+export interface WaitTimeEstimatorOptions {
+  /** Random source used by `sample`; takes precedence over `seed` */
+  random?: RandomSource;
+  /** Seed for a deterministic random source used by `sample` */
+  seed?: number;
+}
+
+// z-score of the 90th percentile of the standard normal distribution
+const Z_90 = 1.2815515655446004;
+
+/**
+ * Estimates how long someone waits behind `position` customers.
+ *
+ * Each customer's service time is treated as independent with mean
+ * `averageServiceTime` and a coefficient of variation of `varianceServiceTime`,
+ * so the total wait is approximately normal with mean `position * mean` and
+ * standard deviation `sqrt(position) * variance * mean`. `estimate` is pure;
+ * only `sample` uses the random source.
+ */
+export class WaitTimeEstimator {
+  private readonly random: RandomSource;
+
+  constructor(options: WaitTimeEstimatorOptions = {}) {
+    this.random = RandomUtils.resolve(options);
+  }
+
+  /**
+   * Returns the point estimate and p10/p50/p90 bounds for a position
+   * @param position Number of customers ahead
+   * @param averageServiceTime Average service time per customer in seconds
+   * @param varianceServiceTime Variance in service time (0-1, where 0 means no variance)
+   */
+  estimate(
+    position: number,
+    averageServiceTime: number,
+    varianceServiceTime: number = 0.2
+  ): WaitTimeEstimate {
+    if (position <= 0 || averageServiceTime <= 0) {
+      return { estimate: 0, p10: 0, p50: 0, p90: 0, standardDeviation: 0 };
+    }
+
+    const mean = position * averageServiceTime;
+    const standardDeviation = Math.sqrt(position) * Math.max(0, varianceServiceTime) * averageServiceTime;
+    const p50 = Math.round(mean);
+
+    return {
+      estimate: p50,
+      p10: Math.max(0, Math.round(mean - Z_90 * standardDeviation)),
+      p50,
+      p90: Math.round(mean + Z_90 * standardDeviation),
+      standardDeviation: Math.round(standardDeviation),
+    };
+  }
+
+  /**
+   * Draws a simulated wait time from the same distribution as `estimate`
+   */
+  sample(
+    position: number,
+    averageServiceTime: number,
+    varianceServiceTime: number = 0.2
+  ): number {
+    const { p50, standardDeviation } = this.estimate(position, averageServiceTime, varianceServiceTime);
+    return Math.max(0, Math.round(RandomUtils.normal(this.random, p50, standardDeviation)));
+  }
+}